@@ -0,0 +1,47 @@
+/**
+ * Create the time-lock application on the network named by `VITE_NETWORK` and print
+ * the `VITE_TIMELOCK_APP_ID` to configure the app with.
+ *
+ * LocalNet deploys from the first account of its KMD; other networks from the account
+ * whose 25-word mnemonic is in `DEPLOYER_MNEMONIC`.
+ *
+ *   VITE_NETWORK=localnet npm run deploy:timelock
+ *   VITE_NETWORK=testnet DEPLOYER_MNEMONIC="..." npm run deploy:timelock
+ */
+import algosdk from 'algosdk';
+import { createAlgodClient } from '../src/utils/algorand';
+import { KmdWallet } from '../src/utils/kmd';
+import { NetworkConfig, getNetwork } from '../src/utils/network';
+import { TimeLockClient } from '../src/utils/timeLockContract';
+
+async function getDeployer(network: NetworkConfig): Promise<{ address: string; signer: algosdk.TransactionSigner }> {
+  if (network.kmd) {
+    const wallet = new KmdWallet(network.kmd);
+    const [address] = await wallet.listAccounts();
+    if (!address) {
+      throw new Error('KMD has no account to deploy from');
+    }
+    return { address, signer: wallet.signer };
+  }
+
+  const mnemonic = process.env.DEPLOYER_MNEMONIC;
+  if (!mnemonic) {
+    throw new Error(`DEPLOYER_MNEMONIC is required to deploy to ${network.name}`);
+  }
+  const account = algosdk.mnemonicToSecretKey(mnemonic.trim());
+  return { address: account.addr.toString(), signer: algosdk.makeBasicAccountTransactionSigner(account) };
+}
+
+async function main() {
+  const network = getNetwork();
+  const { address, signer } = await getDeployer(network);
+
+  console.log(`Deploying the time-lock application to ${network.name} from ${address}`);
+  const client = await TimeLockClient.deploy(createAlgodClient(network), address, signer);
+  console.log(`VITE_TIMELOCK_APP_ID=${client.appId}`);
+}
+
+main().catch(error => {
+  console.error('Deployment failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -8,6 +8,8 @@ import HomePage from './pages/HomePage';
 import RecordPage from './pages/RecordPage';
 import DashboardPage from './pages/DashboardPage';
 import PlaybackPage from './pages/PlaybackPage';
+import InboxPage from './pages/InboxPage';
+import TrusteePage from './pages/TrusteePage';
 
 function App() {
   return (
@@ -20,6 +22,8 @@ function App() {
                 <Route path="/" element={<HomePage />} />
                 <Route path="/record" element={<RecordPage />} />
                 <Route path="/dashboard" element={<DashboardPage />} />
+                <Route path="/inbox" element={<InboxPage />} />
+                <Route path="/trustee" element={<TrusteePage />} />
                 <Route path="/playback/:id" element={<PlaybackPage />} />
               </Routes>
             </Layout>
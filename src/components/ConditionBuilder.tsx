@@ -0,0 +1,173 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import type { VoiceMemory } from '../contexts/MemoryContext';
+import type { UnlockCondition } from '../utils/unlockCondition';
+
+type ConditionGroup = Extract<UnlockCondition, { type: 'all' | 'any' }>;
+
+interface ConditionBuilderProps {
+  // Always a group at the top, so conditions can be added to it
+  value: ConditionGroup;
+  onChange: (condition: ConditionGroup) => void;
+  // Memories that listen-based conditions may refer to
+  memories: VoiceMemory[];
+}
+
+const inputClassName = 'px-4 py-2 rounded-xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-serif text-sm';
+
+const CONDITION_TYPES: { type: UnlockCondition['type']; label: string }[] = [
+  { type: 'date', label: 'After a date' },
+  { type: 'round', label: 'After an Algorand round' },
+  { type: 'memoryOpened', label: 'After another memory is opened' },
+  { type: 'listens', label: 'After listens of another memory' },
+  { type: 'all', label: 'All of a group' },
+  { type: 'any', label: 'Any of a group' }
+];
+
+// `datetime-local` values are in the local zone, without seconds
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+function createCondition(type: UnlockCondition['type'], memories: VoiceMemory[]): UnlockCondition {
+  const memoryId = memories[0]?.id ?? '';
+  switch (type) {
+    case 'date':
+      return { type, date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() };
+    case 'round':
+      return { type, round: 0 };
+    case 'memoryOpened':
+      return { type, memoryId };
+    case 'listens':
+      return { type, memoryId, count: 3 };
+    case 'all':
+    case 'any':
+      return { type, conditions: [] };
+  }
+}
+
+const ConditionEditor: React.FC<{
+  condition: UnlockCondition;
+  onChange: (condition: UnlockCondition) => void;
+  memories: VoiceMemory[];
+}> = ({ condition, onChange, memories }) => {
+  const memorySelect = (memoryId: string, update: (memoryId: string) => void) => (
+    <select value={memoryId} onChange={(e) => update(e.target.value)} className={`${inputClassName} flex-1 min-w-0`}>
+      {memories.length === 0 && <option value="" className="bg-void-900">No memories to choose from</option>}
+      {memories.map(memory => (
+        <option key={memory.id} value={memory.id} className="bg-void-900">
+          {memory.isLocked ? `Sealed memory from ${memory.createdDate.toLocaleDateString()}` : memory.title}
+        </option>
+      ))}
+    </select>
+  );
+
+  switch (condition.type) {
+    case 'date':
+      return (
+        <input
+          type="datetime-local"
+          value={toLocalInput(condition.date)}
+          onChange={(e) => e.target.value && onChange({ ...condition, date: new Date(e.target.value).toISOString() })}
+          className={`${inputClassName} flex-1`}
+        />
+      );
+    case 'round':
+      return (
+        <input
+          type="number"
+          min={0}
+          value={condition.round}
+          onChange={(e) => onChange({ ...condition, round: Math.max(0, Math.floor(Number(e.target.value))) })}
+          className={`${inputClassName} flex-1`}
+        />
+      );
+    case 'memoryOpened':
+      return memorySelect(condition.memoryId, memoryId => onChange({ ...condition, memoryId }));
+    case 'listens':
+      return (
+        <div className="flex flex-1 items-center gap-2 min-w-0">
+          <input
+            type="number"
+            min={1}
+            value={condition.count}
+            onChange={(e) => onChange({ ...condition, count: Math.max(1, Math.floor(Number(e.target.value))) })}
+            className={`${inputClassName} w-20`}
+          />
+          <span className="text-starlight-400 font-serif text-sm">listens of</span>
+          {memorySelect(condition.memoryId, memoryId => onChange({ ...condition, memoryId }))}
+        </div>
+      );
+    case 'all':
+    case 'any':
+      return <GroupEditor group={condition} onChange={onChange} memories={memories} />;
+  }
+};
+
+const GroupEditor: React.FC<{
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  memories: VoiceMemory[];
+}> = ({ group, onChange, memories }) => {
+  const replace = (index: number, condition: UnlockCondition) =>
+    onChange({ ...group, conditions: group.conditions.map((existing, i) => (i === index ? condition : existing)) });
+
+  return (
+    <div className="flex-1 space-y-3 pl-4 border-l border-white/[0.08]">
+      <div className="flex items-center space-x-2 text-sm font-serif text-starlight-300">
+        <span>Open when</span>
+        <select
+          value={group.type}
+          onChange={(e) => onChange({ ...group, type: e.target.value as ConditionGroup['type'] })}
+          className={inputClassName}
+        >
+          <option value="all" className="bg-void-900">all</option>
+          <option value="any" className="bg-void-900">any</option>
+        </select>
+        <span>of these hold</span>
+      </div>
+
+      {group.conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-start gap-2">
+          <select
+            value={condition.type}
+            onChange={(e) => replace(index, createCondition(e.target.value as UnlockCondition['type'], memories))}
+            className={inputClassName}
+          >
+            {CONDITION_TYPES.map(option => (
+              <option key={option.type} value={option.type} className="bg-void-900">{option.label}</option>
+            ))}
+          </select>
+          <ConditionEditor condition={condition} onChange={(updated) => replace(index, updated)} memories={memories} />
+          <button
+            type="button"
+            onClick={() => onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })}
+            className="p-2 text-starlight-500 hover:text-starlight-200 transition-colors"
+            aria-label="Remove condition"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...group, conditions: [...group.conditions, createCondition('date', memories)] })}
+        className="flex items-center space-x-2 px-4 py-2 text-sm font-serif bg-white/[0.06] text-starlight-300 rounded-xl hover:bg-white/[0.12] hover:text-starlight-200 transition-all duration-300 border border-white/[0.08]"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add condition</span>
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Edits an unlock condition tree. Empty groups are left for the caller to drop.
+ */
+const ConditionBuilder: React.FC<ConditionBuilderProps> = ({ value, onChange, memories }) => (
+  <GroupEditor group={value} onChange={onChange} memories={memories} />
+);
+
+export default ConditionBuilder;
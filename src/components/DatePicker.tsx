@@ -1,36 +1,66 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { fromZonedParts, getLocalTimeZone, listTimeZones, toZonedParts } from '../utils/timezone';
 
 interface DatePickerProps {
   value: Date;
-  onChange: (date: Date) => void;
+  // IANA zone in which the date and time are chosen
+  timeZone: string;
+  onChange: (date: Date, timeZone: string) => void;
 }
 
-const DatePicker: React.FC<DatePickerProps> = ({ value, onChange }) => {
-  const formatDateForInput = (date: Date) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
+const DatePicker: React.FC<DatePickerProps> = ({ value, timeZone, onChange }) => {
+  const timeZones = useMemo(listTimeZones, []);
+  const { date, time } = toZonedParts(value, timeZone);
 
   const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newDate = new Date(e.target.value + 'T00:00:00');
-    onChange(newDate);
+    if (!e.target.value) return;
+    onChange(fromZonedParts({ date: e.target.value, time }, timeZone), timeZone);
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.value) return;
+    onChange(fromZonedParts({ date, time: e.target.value }, timeZone), timeZone);
+  };
+
+  // Keeps the wall-clock date and time, so 9:00 stays 9:00 in the new zone
+  const handleTimeZoneChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange(fromZonedParts({ date, time }, e.target.value), e.target.value);
   };
 
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
-  const minDate = formatDateForInput(tomorrow);
+  const minDate = toZonedParts(tomorrow, timeZone).date;
+
+  const inputClassName = 'w-full px-6 py-4 rounded-2xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-serif';
 
   return (
     <div className="space-y-6">
-      <input
-        type="date"
-        value={formatDateForInput(value)}
-        onChange={handleDateChange}
-        min={minDate}
-        className="w-full px-6 py-4 rounded-2xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-serif"
-      />
+      <div className="grid sm:grid-cols-2 gap-4">
+        <input
+          type="date"
+          value={date}
+          onChange={handleDateChange}
+          min={minDate}
+          className={inputClassName}
+        />
+        <input
+          type="time"
+          value={time}
+          onChange={handleTimeChange}
+          className={inputClassName}
+        />
+      </div>
+      <select
+        value={timeZone}
+        onChange={handleTimeZoneChange}
+        className={inputClassName}
+      >
+        {timeZones.map(zone => (
+          <option key={zone} value={zone} className="bg-void-900">
+            {zone.replace(/_/g, ' ')}
+          </option>
+        ))}
+      </select>
       
       {/* Quick Select Options */}
       <div className="flex flex-wrap gap-3">
@@ -40,13 +70,16 @@ const DatePicker: React.FC<DatePickerProps> = ({ value, onChange }) => {
           { label: 'Six Months', days: 180, whisper: 'Half a year\'s wisdom' },
           { label: 'One Year', days: 365, whisper: 'A full cycle of seasons' }
         ].map(option => {
-          const quickDate = new Date();
-          quickDate.setDate(quickDate.getDate() + option.days);
+          // Move the date but keep the chosen time of day
+          const quickDay = new Date();
+          quickDay.setDate(quickDay.getDate() + option.days);
+          const quickDate = fromZonedParts({ date: toZonedParts(quickDay, timeZone).date, time }, timeZone);
           
           return (
             <button
               key={option.label}
-              onClick={() => onChange(quickDate)}
+              type="button"
+              onClick={() => onChange(quickDate, timeZone)}
               className="group relative px-4 py-2 text-sm font-serif bg-white/[0.06] text-starlight-300 rounded-xl hover:bg-white/[0.12] hover:text-starlight-200 transition-all duration-300 border border-white/[0.08]"
             >
               {option.label}
@@ -61,7 +94,10 @@ const DatePicker: React.FC<DatePickerProps> = ({ value, onChange }) => {
       </div>
       
       <p className="text-whisper">
-        Your memory will awaken on <em>{value.toLocaleDateString()}</em> when midnight kisses the earth
+        Your memory will awaken on <em>{date}</em> at <em>{time}</em> in {timeZone.replace(/_/g, ' ')}
+        {timeZone !== getLocalTimeZone() && (
+          <> &mdash; <em>{value.toLocaleString()}</em> where you are now</>
+        )}
       </p>
     </div>
   );
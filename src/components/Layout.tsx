@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Clock, Home, Mic, Archive, Wallet, Star } from 'lucide-react';
+import { Clock, Home, Mic, Archive, Wallet, Star, Gift, Users, ChevronDown, Globe } from 'lucide-react';
 import { useWallet } from '../contexts/WalletContext';
 import StarField from './StarField';
 
@@ -10,12 +10,28 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
-  const { isConnected, accounts, connect, disconnect } = useWallet();
+  const { isConnected, accounts, activeAccount, selectAccount, connect, disconnect, wallets, activeWallet, network } = useWallet();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  // Development wallets only exist in dev builds, so are left out rather than shown disabled
+  const listedWallets = wallets.filter(wallet => !wallet.isDevelopment || wallet.isAvailable());
+
+  const handleConnect = async (wallet: typeof wallets[number]) => {
+    setIsPickerOpen(false);
+    await connect(wallet.id);
+  };
+
+  const networkBadgeClassName = {
+    localnet: 'bg-aurora-500/20 text-aurora-300 border-aurora-500/30',
+    testnet: 'bg-cosmos-500/20 text-cosmos-300 border-cosmos-500/30',
+    mainnet: 'bg-gold-500/20 text-gold-300 border-gold-500/30'
+  }[network.id];
 
   const navigation = [
     { name: 'Home', href: '/', icon: Home, whisper: 'Return to the beginning' },
     { name: 'Record', href: '/record', icon: Mic, whisper: 'Speak to tomorrow' },
     { name: 'Memories', href: '/dashboard', icon: Archive, whisper: 'Echoes from yesterday' },
+    { name: 'Inbox', href: '/inbox', icon: Gift, whisper: 'Voices sent your way' },
+    { name: 'Trustee', href: '/trustee', icon: Users, whisper: 'Keys held in your care' },
   ];
 
   return (
@@ -75,13 +91,35 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
 
             {/* Wallet Connection */}
             <div className="flex items-center space-x-4">
+              <span
+                className={`hidden sm:inline-flex items-center space-x-2 px-3 py-1.5 rounded-full border text-xs font-serif ${networkBadgeClassName}`}
+                title={`Algorand ${network.name} (${network.genesisId})`}
+              >
+                <Globe className="h-3 w-3" />
+                <span>{network.name}</span>
+              </span>
               {isConnected ? (
                 <div className="flex items-center space-x-4">
-                  <div className="flex items-center space-x-3 glass-soft px-5 py-3 rounded-2xl">
+                  <div className="flex items-center space-x-3 glass-soft px-5 py-3 rounded-2xl" title={activeWallet ? `Connected through ${activeWallet.name}` : undefined}>
                     <div className="w-2 h-2 bg-aurora-400 rounded-full animate-pulse-gentle shadow-starlight"></div>
-                    <span className="text-sm font-mono text-starlight-200 tracking-wider">
-                      {accounts[0].slice(0, 6)}...{accounts[0].slice(-4)}
-                    </span>
+                    {accounts.length > 1 ? (
+                      <select
+                        value={activeAccount ?? undefined}
+                        onChange={(e) => selectAccount(e.target.value)}
+                        aria-label="Active account"
+                        className="bg-transparent text-sm font-mono text-starlight-200 tracking-wider focus:outline-none cursor-pointer"
+                      >
+                        {accounts.map(account => (
+                          <option key={account} value={account} className="bg-void-900">
+                            {account.slice(0, 6)}...{account.slice(-4)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : activeAccount && (
+                      <span className="text-sm font-mono text-starlight-200 tracking-wider">
+                        {activeAccount.slice(0, 6)}...{activeAccount.slice(-4)}
+                      </span>
+                    )}
                   </div>
                   <button
                     onClick={disconnect}
@@ -91,13 +129,45 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                   </button>
                 </div>
               ) : (
-                <button
-                  onClick={connect}
-                  className="button-primary flex items-center space-x-3 px-8 py-4 font-serif font-medium transition-all duration-500"
-                >
-                  <Wallet className="h-4 w-4" />
-                  <span>Connect Wallet</span>
-                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setIsPickerOpen(open => !open)}
+                    aria-expanded={isPickerOpen}
+                    className="button-primary flex items-center space-x-3 px-8 py-4 font-serif font-medium transition-all duration-500"
+                  >
+                    <Wallet className="h-4 w-4" />
+                    <span>Connect Wallet</span>
+                    <ChevronDown className={`h-4 w-4 transition-transform duration-300 ${isPickerOpen ? 'rotate-180' : ''}`} />
+                  </button>
+
+                  {isPickerOpen && (
+                    <div className="absolute right-0 mt-3 w-80 glass-ethereal rounded-2xl p-2 z-30 shadow-ethereal">
+                      <p className="text-whisper px-4 pt-2 pb-3">Choose where your keys rest</p>
+                      {listedWallets.map(wallet => {
+                        const isAvailable = wallet.isAvailable();
+                        return (
+                          <button
+                            key={wallet.id}
+                            onClick={() => handleConnect(wallet)}
+                            disabled={!isAvailable}
+                            className="w-full text-left px-4 py-3 rounded-xl transition-all duration-300 hover:bg-white/[0.08] disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="font-serif text-starlight-100">{wallet.name}</span>
+                              {wallet.isDevelopment && (
+                                <span className="text-xs font-serif italic text-nebula-300">development</span>
+                              )}
+                              {!isAvailable && (
+                                <span className="text-xs font-serif italic text-starlight-500">not installed</span>
+                              )}
+                            </div>
+                            <p className="text-xs font-serif text-starlight-400 mt-1">{wallet.description}</p>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
               )}
             </div>
           </div>
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useRef } from 'react';
+import { pickRecordingMimeType } from '../utils/audio';
 
 interface AudioContextType {
   isRecording: boolean;
@@ -75,17 +76,12 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
       };
       
-      // Set up media recorder with better settings
-      const options = {
-        mimeType: 'audio/webm;codecs=opus',
+      // Set up media recorder with the best container this browser supports
+      const options: MediaRecorderOptions = {
+        mimeType: pickRecordingMimeType(),
         audioBitsPerSecond: 128000
       };
       
-      // Fallback for browsers that don't support webm
-      if (!MediaRecorder.isTypeSupported(options.mimeType)) {
-        options.mimeType = 'audio/mp4';
-      }
-      
       mediaRecorderRef.current = new MediaRecorder(stream, options);
       const chunks: Blob[] = [];
       
@@ -95,8 +91,10 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
       };
       
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunks, { type: 'audio/wav' });
+      const recorder = mediaRecorderRef.current;
+      recorder.onstop = () => {
+        // Label the Blob with what was actually recorded
+        const blob = new Blob(chunks, { type: recorder.mimeType || chunks[0]?.type || options.mimeType });
         setAudioBlob(blob);
         setAudioUrl(URL.createObjectURL(blob));
         
@@ -1,5 +1,21 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { ChronoLockStorage } from '../utils/storage';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import {
+  ArchiveImportResult,
+  CheckInStatus,
+  ChronoLockStorage,
+  MemoryUpdate,
+  PuzzleStatus,
+  RecurrenceStatus,
+  TrusteeOptions,
+  TrusteeStatus
+} from '../utils/storage';
+import type { IntegrityStatus } from '../utils/integrity';
+import type { AuthorshipStatus } from '../utils/authorship';
+import type { AnchorStatus, NoteAnchor } from '../utils/noteAnchor';
+import type { ClockStatus } from '../utils/timeSource';
+import { UnlockCondition, conditionDates } from '../utils/unlockCondition';
+import type { Recurrence } from '../utils/recurrence';
+import { createTimeLockClient } from '../utils/timeLockContract';
 import { useWallet } from './WalletContext';
 
 export interface VoiceMemory {
@@ -7,6 +23,7 @@ export interface VoiceMemory {
   title: string;
   note?: string;
   unlockDate: Date;
+  unlockTimeZone?: string;
   createdDate: Date;
   emotion: {
     tone: string;
@@ -14,17 +31,69 @@ export interface VoiceMemory {
   };
   duration: number;
   isLocked: boolean;
-  audioUrl?: string;
   audioBlob?: Blob;
+  mimeType?: string;
+  cid?: string;
+  integrity?: IntegrityStatus;
+  authorship?: AuthorshipStatus;
+  anchor?: NoteAnchor;
+  puzzle?: PuzzleStatus;
+  userAddress?: string;
+  recipient?: string;
+  awaitingKey?: boolean;
+  trustees?: TrusteeStatus;
+  checkIn?: CheckInStatus;
+  unlockCondition?: UnlockCondition;
+  // The part of the unlock condition that still holds the memory shut
+  pendingCondition?: UnlockCondition;
+  listens?: number;
+  recurrence?: RecurrenceStatus;
+}
+
+export interface AddMemoryOptions {
+  timeLockPuzzle?: boolean;
+  // Send the memory as a gift to another account
+  recipient?: string;
+  trustees?: TrusteeOptions;
+  // Open for the recipient if the owner goes this many seconds without checking in
+  checkInInterval?: number;
+  // Required on top of the unlock date
+  unlockCondition?: UnlockCondition;
+  // Reopen on every occurrence of the rule, for a limited listening window each time
+  recurrence?: Recurrence;
+  // Record the content hash and unlock time in a 0-ALGO self-payment note
+  anchorInNote?: boolean;
 }
 
 interface MemoryContextType {
+  // Memories of the active account
   memories: VoiceMemory[];
-  addMemory: (memory: Omit<VoiceMemory, 'id' | 'createdDate' | 'isLocked'>) => Promise<string>;
+  // Memories of every connected account, for the combined archive view
+  combinedMemories: VoiceMemory[];
+  // Gifts addressed to the connected account
+  inbox: VoiceMemory[];
+  // Memories the connected account is a trustee of
+  trusteeMemories: VoiceMemory[];
+  addMemory: (memory: Omit<VoiceMemory, 'id' | 'createdDate' | 'isLocked'>, options?: AddMemoryOptions) => Promise<string>;
   getMemory: (id: string) => VoiceMemory | undefined;
-  updateMemory: (id: string, updates: Partial<VoiceMemory>) => void;
-  deleteMemory: (id: string) => void;
+  loadAudio: (id: string) => Promise<Blob>;
+  solvePuzzle: (id: string, onProgress: (status: PuzzleStatus) => void, signal?: AbortSignal) => Promise<void>;
+  claimGift: (id: string, mnemonic: string) => Promise<void>;
+  approveAsTrustee: (id: string, mnemonic: string) => Promise<void>;
+  // Postpone every check-in switch of the connected account
+  checkIn: () => Promise<void>;
+  // Count a listen, which other memories' unlock conditions may wait for
+  recordListen: (id: string) => Promise<void>;
+  // Undefined for memories without a transaction anchor
+  checkAnchor: (id: string) => Promise<AnchorStatus | undefined>;
+  updateMemory: (id: string, updates: MemoryUpdate) => Promise<void>;
+  deleteMemory: (id: string) => Promise<void>;
   refreshMemories: () => Promise<void>;
+  exportArchive: (passphrase: string) => Promise<Blob>;
+  // Gift files need no passphrase
+  importArchive: (file: Blob, passphrase?: string) => Promise<ArchiveImportResult>;
+  exportGift: (memoryId: string) => Promise<Blob>;
+  clockStatus: ClockStatus | null;
   isLoading: boolean;
 }
 
@@ -38,37 +107,125 @@ export const useMemory = () => {
   return context;
 };
 
-export const MemoryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface MemoryProviderProps {
+  children: React.ReactNode;
+  // Optional so tests can run against e.g. an in-memory backend
+  storage?: ChronoLockStorage;
+}
+
+export const MemoryProvider: React.FC<MemoryProviderProps> = ({ children, storage: providedStorage }) => {
   const [memories, setMemories] = useState<VoiceMemory[]>([]);
+  const [otherMemories, setOtherMemories] = useState<VoiceMemory[]>([]);
+  const [inbox, setInbox] = useState<VoiceMemory[]>([]);
+  const [trusteeMemories, setTrusteeMemories] = useState<VoiceMemory[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const { accounts, isConnected } = useWallet();
-  const storage = new ChronoLockStorage();
-
-  // Load memories when wallet connects
-  useEffect(() => {
-    if (isConnected && accounts.length > 0) {
-      refreshMemories();
-    } else {
-      setMemories([]);
-    }
-  }, [isConnected, accounts]);
+  const [clockStatus, setClockStatus] = useState<ClockStatus | null>(null);
+  const {
+    accounts,
+    activeAccount,
+    isConnected,
+    connectionCount,
+    transactionSigner,
+    signBytes,
+    network,
+    canEnterMnemonic
+  } = useWallet();
+  // Scoped to the wallet's network, so memories of other chains never appear
+  const storage = useMemo(
+    () => providedStorage ?? new ChronoLockStorage({ network, timeLock: createTimeLockClient(network) }),
+    [providedStorage, network]
+  );
 
-  const refreshMemories = async () => {
-    if (!isConnected || accounts.length === 0) return;
+  const refreshMemories = useCallback(async () => {
+    if (!isConnected || !activeAccount) return;
 
     setIsLoading(true);
     try {
-      const userMemories = await storage.getUserMemories(accounts[0]);
+      const [userMemories, otherAccountMemories, inboxMemories, trusted, clock] = await Promise.all([
+        storage.getUserMemories(activeAccount),
+        Promise.all(accounts
+          .filter(account => account !== activeAccount)
+          .map(account => storage.getUserMemories(account))),
+        storage.getInboxMemories(activeAccount),
+        storage.getTrusteeMemories(activeAccount),
+        storage.getClockStatus()
+      ]);
       setMemories(userMemories);
+      setOtherMemories(otherAccountMemories.flat());
+      setInbox(inboxMemories);
+      setTrusteeMemories(trusted);
+      setClockStatus(clock);
     } catch (error) {
       console.error('Failed to load memories:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [storage, isConnected, activeAccount, accounts]);
+
+  // Load memories when wallet connects or another account is selected
+  useEffect(() => {
+    if (isConnected && activeAccount) {
+      refreshMemories();
+    } else {
+      setMemories([]);
+      setOtherMemories([]);
+      setInbox([]);
+      setTrusteeMemories([]);
+    }
+  }, [isConnected, activeAccount, refreshMemories]);
+
+  // Connecting a wallet counts as a check-in. A restored session does not, so a device
+  // left signed in cannot hold a release back forever.
+  const checkedInConnection = useRef(0);
+  useEffect(() => {
+    if (!activeAccount || connectionCount === checkedInConnection.current) return;
+    checkedInConnection.current = connectionCount;
+    storage.checkIn(activeAccount, signBytes)
+      .catch(error => console.warn('Check-in on connect failed:', error))
+      .finally(() => refreshMemories());
+  }, [connectionCount, activeAccount, storage, signBytes, refreshMemories]);
+
+  // Pick up memories recorded, changed or deleted in other tabs
+  useEffect(() => {
+    if (!isConnected || !activeAccount) return;
+    return storage.onRemoteChange(() => {
+      refreshMemories();
+    });
+  }, [storage, isConnected, activeAccount, refreshMemories]);
+
+  // Reload when the next locked memory reaches its unlock date, next occurrence or a date in
+  // its pending condition, or a recurring one's window closes, so every tab follows along.
+  // Measured against trusted time.
+  useEffect(() => {
+    const now = Date.now() - (clockStatus?.skewMs ?? 0);
+    const nextUnlock = Math.min(
+      ...[...memories, ...inbox]
+        .filter(memory => !memory.awaitingKey)
+        .flatMap(memory => (memory.isLocked
+          ? [
+            memory.unlockDate,
+            ...(memory.pendingCondition ? conditionDates(memory.pendingCondition) : []),
+            ...(memory.recurrence?.nextOpening ? [memory.recurrence.nextOpening] : [])
+          ]
+          : memory.recurrence?.windowEnds ? [memory.recurrence.windowEnds] : []))
+        .map(date => date.getTime())
+        .filter(time => time > now)
+    );
+    if (!Number.isFinite(nextUnlock)) return;
+
+    // setTimeout overflows past ~24.8 days, a shorter wait simply re-arms
+    const delay = Math.min(Math.max(nextUnlock - now, 0) + 1000, 2 ** 31 - 1);
+    const timer = setTimeout(() => {
+      refreshMemories();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [memories, inbox, clockStatus, refreshMemories]);
 
-  const addMemory = async (memoryData: Omit<VoiceMemory, 'id' | 'createdDate' | 'isLocked'>): Promise<string> => {
-    if (!isConnected || accounts.length === 0) {
+  const addMemory = async (
+    memoryData: Omit<VoiceMemory, 'id' | 'createdDate' | 'isLocked'>,
+    options: AddMemoryOptions = {}
+  ): Promise<string> => {
+    if (!isConnected || !activeAccount) {
       throw new Error('Wallet not connected');
     }
 
@@ -76,15 +233,34 @@ export const MemoryProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       throw new Error('Audio blob is required');
     }
 
+    // Nobody could open it: recipients unwrap gifts with a mnemonic only test accounts may enter
+    if (options.recipient && !canEnterMnemonic) {
+      throw new Error('Gifts can only be sent on LocalNet or from a development wallet');
+    }
+    // Trustees approve the same way
+    if (options.trustees && !canEnterMnemonic) {
+      throw new Error('Trustees can only be named on LocalNet or from a development wallet');
+    }
+
     setIsLoading(true);
     try {
-      // Store using localStorage
+      // Encrypt and store through the configured backend
       const result = await storage.storeVoiceMemory(memoryData.audioBlob, {
         title: memoryData.title,
         note: memoryData.note,
         unlockDate: memoryData.unlockDate,
+        unlockTimeZone: memoryData.unlockTimeZone,
         emotion: memoryData.emotion,
-        userAddress: accounts[0]
+        userAddress: activeAccount,
+        signer: transactionSigner,
+        signBytes,
+        timeLockPuzzle: options.timeLockPuzzle,
+        recipient: options.recipient,
+        trustees: options.trustees,
+        checkInInterval: options.checkInInterval,
+        unlockCondition: options.unlockCondition,
+        recurrence: options.recurrence,
+        anchorInNote: options.anchorInNote
       });
 
       // Refresh memories to get the updated list
@@ -101,40 +277,104 @@ export const MemoryProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   const getMemory = (id: string): VoiceMemory | undefined => {
-    return memories.find(memory => memory.id === id);
+    return [...memories, ...otherMemories, ...inbox, ...trusteeMemories].find(memory => memory.id === id);
   };
 
-  const updateMemory = (id: string, updates: Partial<VoiceMemory>) => {
-    setMemories(prev => prev.map(memory => 
-      memory.id === id 
-        ? { 
-            ...memory, 
-            ...updates,
-            isLocked: updates.unlockDate ? new Date() < updates.unlockDate : memory.isLocked
-          }
-        : memory
-    ));
+  // Decrypts on demand; callers own any object URL they create from the Blob
+  const loadAudio = useCallback(async (id: string): Promise<Blob> => {
+    const { audioBlob } = await storage.retrieveVoiceMemory(id);
+    return audioBlob;
+  }, [storage]);
+
+  const solvePuzzle = async (id: string, onProgress: (status: PuzzleStatus) => void, signal?: AbortSignal) => {
+    await storage.solvePuzzle(id, onProgress, signal);
+    await refreshMemories();
   };
 
-  const deleteMemory = (id: string) => {
-    setMemories(prev => {
-      const memoryToDelete = prev.find(m => m.id === id);
-      if (memoryToDelete?.audioUrl) {
-        URL.revokeObjectURL(memoryToDelete.audioUrl);
-      }
-      return prev.filter(memory => memory.id !== id);
-    });
+  const claimGift = async (id: string, mnemonic: string) => {
+    await storage.claimGift(id, mnemonic);
+    await refreshMemories();
+  };
+
+  const approveAsTrustee = async (id: string, mnemonic: string) => {
+    await storage.approveAsTrustee(id, mnemonic);
+    await refreshMemories();
+  };
+
+  const checkIn = async () => {
+    if (!isConnected || !activeAccount) {
+      throw new Error('Wallet not connected');
+    }
+    await storage.checkIn(activeAccount, signBytes);
+    await refreshMemories();
+  };
+
+  const recordListen = useCallback(async (id: string) => {
+    await storage.recordListen(id);
+  }, [storage]);
+
+  const checkAnchor = useCallback((id: string) => storage.checkAnchor(id), [storage]);
+
+  const updateMemory = async (id: string, updates: MemoryUpdate) => {
+    // Re-sealing signs with the active account, which must be the one that recorded it
+    const owner = otherMemories.find(memory => memory.id === id)?.userAddress;
+    if (owner) {
+      throw new Error(`Select account ${owner.slice(0, 6)}...${owner.slice(-4)} to change this memory`);
+    }
+    // Rejects shortened locks before anything changes
+    await storage.updateVoiceMemory(id, updates, signBytes);
+    await refreshMemories();
+  };
+
+  const deleteMemory = async (id: string) => {
+    await storage.deleteVoiceMemory(id);
+    setMemories(prev => prev.filter(memory => memory.id !== id));
+    setOtherMemories(prev => prev.filter(memory => memory.id !== id));
+  };
+
+  const exportArchive = async (passphrase: string): Promise<Blob> => {
+    if (!isConnected || !activeAccount) {
+      throw new Error('Wallet not connected');
+    }
+    return storage.exportArchive(activeAccount, passphrase);
+  };
+
+  const exportGift = async (memoryId: string): Promise<Blob> => {
+    if (!isConnected || !activeAccount) {
+      throw new Error('Wallet not connected');
+    }
+    return storage.exportGift(memoryId);
+  };
+
+  const importArchive = async (file: Blob, passphrase?: string): Promise<ArchiveImportResult> => {
+    const result = await storage.importArchive(file, passphrase);
+    await refreshMemories();
+    return result;
   };
 
   return (
     <MemoryContext.Provider 
       value={{
         memories,
+        combinedMemories: [...memories, ...otherMemories],
+        inbox,
+        trusteeMemories,
         addMemory,
         getMemory,
+        loadAudio,
+        solvePuzzle,
+        claimGift,
+        approveAsTrustee,
+        checkIn,
+        recordListen,
+        checkAnchor,
         updateMemory,
         deleteMemory,
         refreshMemories,
+        exportArchive,
+        importArchive,
+        exportGift,
+        clockStatus,
         isLoading
       }}
     >
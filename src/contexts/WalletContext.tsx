@@ -1,12 +1,37 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { PeraWalletConnect } from '@perawallet/connect';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import type { Transaction, TransactionSigner } from 'algosdk';
+import type { BytesSigner } from '../utils/integrity';
+import { WalletAdapter, WalletId, createWalletAdapters } from '../utils/walletAdapters';
+import { NetworkConfig, getNetwork } from '../utils/network';
+
+// Which wallet to resume on the next visit
+const ACTIVE_WALLET_KEY = 'chronolock_wallet';
+// Which of its accounts is in use, kept for this tab's session only
+const ACTIVE_ACCOUNT_KEY = 'chronolock_account';
 
 interface WalletContextType {
+  // The Algorand network wallets connect to and memories are kept for
+  network: NetworkConfig;
+  // Every supported wallet, including ones unavailable in this browser
+  wallets: WalletAdapter[];
+  activeWallet: WalletAdapter | null;
   accounts: string[];
+  // The account memories are recorded, listed and signed for
+  activeAccount: string | null;
+  selectAccount: (address: string) => void;
   isConnected: boolean;
-  connect: () => Promise<void>;
+  // Counts the connections the user made this page load; restoring a session leaves it alone
+  connectionCount: number;
+  connect: (walletId: WalletId) => Promise<void>;
   disconnect: () => Promise<void>;
-  peraWallet: PeraWalletConnect | null;
+  transactionSigner: TransactionSigner;
+  // Signs the transactions at `indexesToSign` with the active account
+  signTransactions: (txns: Transaction[], indexesToSign?: number[]) => Promise<Uint8Array[]>;
+  // Undefined when the connected wallet cannot sign arbitrary data
+  signBytes?: BytesSigner;
+  // Whether pages may ask for an account mnemonic. Only test accounts qualify: those of
+  // LocalNet or of a development wallet, never a real wallet's keys.
+  canEnterMnemonic: boolean;
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
@@ -19,32 +44,51 @@ export const useWallet = () => {
   return context;
 };
 
-export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface WalletProviderProps {
+  children: React.ReactNode;
+  // Defaults to the network named by `VITE_NETWORK`
+  network?: NetworkConfig;
+}
+
+export const WalletProvider: React.FC<WalletProviderProps> = ({ children, network: providedNetwork }) => {
+  const network = useMemo(() => providedNetwork ?? getNetwork(), [providedNetwork]);
   const [accounts, setAccounts] = useState<string[]>([]);
-  const [peraWallet, setPeraWallet] = useState<PeraWalletConnect | null>(null);
+  const [activeWallet, setActiveWallet] = useState<WalletAdapter | null>(null);
+  const [connectionCount, setConnectionCount] = useState(0);
+  const [selectedAccount, setSelectedAccount] = useState<string | null>(() => sessionStorage.getItem(ACTIVE_ACCOUNT_KEY));
+  // Falls back to the first account when the remembered one is no longer connected
+  const activeAccount = selectedAccount && accounts.includes(selectedAccount) ? selectedAccount : accounts[0] ?? null;
+  const wallets = useMemo(() => createWalletAdapters({
+    network,
+    requestMnemonic: async () => prompt('Enter the 25-word mnemonic of a test account. It is kept only until the page reloads.')
+  }), [network]);
 
   useEffect(() => {
-    const wallet = new PeraWalletConnect();
-    setPeraWallet(wallet);
-
     // Reconnect session if exists
-    wallet.reconnectSession().then((accounts) => {
+    const wallet = wallets.find(candidate => candidate.id === localStorage.getItem(ACTIVE_WALLET_KEY));
+    if (!wallet?.isAvailable()) return;
+
+    wallet.reconnect().then((accounts) => {
       if (accounts.length) {
+        setActiveWallet(wallet);
         setAccounts(accounts);
       }
     }).catch(console.error);
+  }, [wallets]);
 
-    return () => {
-      wallet.disconnect();
-    };
-  }, []);
+  const connect = async (walletId: WalletId) => {
+    const wallet = wallets.find(candidate => candidate.id === walletId);
+    if (!wallet) return;
 
-  const connect = async () => {
-    if (!peraWallet) return;
-    
     try {
-      const newAccounts = await peraWallet.connect();
+      if (activeWallet && activeWallet !== wallet) {
+        await activeWallet.disconnect();
+      }
+      const newAccounts = await wallet.connect();
+      setActiveWallet(wallet);
       setAccounts(newAccounts);
+      setConnectionCount(count => count + 1);
+      localStorage.setItem(ACTIVE_WALLET_KEY, wallet.id);
     } catch (error) {
       // Check if the error is due to user closing the modal
       if (error instanceof Error && error.message === 'Connect modal is closed by user') {
@@ -52,40 +96,81 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         console.log('Wallet connection cancelled by user');
         return;
       }
-      
-      // Check if the error is due to Pera Wallet not being available
-      if (error instanceof Error && error.message.includes("Couldn't open Pera Wallet")) {
-        console.error('Pera Wallet is not available. Please ensure the Pera Wallet application is installed on your device or use the Pera Wallet browser extension.');
+
+      // Check if the error is due to the mobile wallet not being available
+      if (error instanceof Error && /Couldn't open (Pera|Defly) Wallet/.test(error.message)) {
+        console.error(`${wallet.name} is not available. Please ensure the ${wallet.name} application is installed on your device.`);
         return;
       }
-      
+
       // Log actual connection errors
       console.error('Failed to connect wallet:', error);
     }
   };
 
+  const selectAccount = (address: string) => {
+    if (!accounts.includes(address)) {
+      throw new Error(`Account ${address} is not connected`);
+    }
+    setSelectedAccount(address);
+    sessionStorage.setItem(ACTIVE_ACCOUNT_KEY, address);
+  };
+
+  const signTransactions = useCallback(async (txns: Transaction[], indexesToSign = txns.map((_, index) => index)) => {
+    if (!activeWallet || !activeAccount) {
+      throw new Error('Wallet not connected');
+    }
+    return activeWallet.signTransactions(txns, indexesToSign, activeAccount);
+  }, [activeWallet, activeAccount]);
+
+  // algosdk-style signer backed by the connected wallet
+  const transactionSigner = useCallback<TransactionSigner>(
+    (txnGroup, indexesToSign) => signTransactions(txnGroup, indexesToSign),
+    [signTransactions]
+  );
+
+  // Arbitrary data signing; the wallet adds the Algorand "MX" prefix
+  const signBytes = useMemo<BytesSigner | undefined>(() => {
+    if (!activeWallet?.signBytes || !activeAccount) return undefined;
+    const sign = activeWallet.signBytes.bind(activeWallet);
+    return (data, message) => sign(data, message, activeAccount);
+  }, [activeWallet, activeAccount]);
+
   const disconnect = async () => {
-    if (!peraWallet) return;
-    
+    if (!activeWallet) return;
+
     try {
-      await peraWallet.disconnect();
+      await activeWallet.disconnect();
+      setActiveWallet(null);
       setAccounts([]);
+      setSelectedAccount(null);
+      localStorage.removeItem(ACTIVE_WALLET_KEY);
+      sessionStorage.removeItem(ACTIVE_ACCOUNT_KEY);
     } catch (error) {
       console.error('Failed to disconnect wallet:', error);
     }
   };
 
   return (
-    <WalletContext.Provider 
+    <WalletContext.Provider
       value={{
+        network,
+        wallets,
+        activeWallet,
         accounts,
+        activeAccount,
+        selectAccount,
         isConnected: accounts.length > 0,
+        connectionCount,
         connect,
         disconnect,
-        peraWallet
+        transactionSigner,
+        signTransactions,
+        signBytes,
+        canEnterMnemonic: network.id === 'localnet' || Boolean(activeWallet?.isDevelopment)
       }}
     >
       {children}
     </WalletContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -1,16 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Navigate, Link, useLocation } from 'react-router-dom';
-import { Clock, Lock, Unlock, Play, Calendar, Heart, Star, Moon } from 'lucide-react';
+import { Clock, Lock, Unlock, Play, Calendar, Heart, Star, Moon, Download, Upload, ShieldCheck, ShieldAlert, AlertTriangle, Hourglass, Gift, Users, HeartPulse, GitBranch, Repeat, Wallet } from 'lucide-react';
 import { formatDistanceToNow, isAfter } from 'date-fns';
 import { useWallet } from '../contexts/WalletContext';
 import { useMemory } from '../contexts/MemoryContext';
+import { ARCHIVE_FILE_EXTENSION } from '../utils/archive';
+import { formatInTimeZone } from '../utils/timezone';
+import { describeCondition } from '../utils/unlockCondition';
+import { describeRecurrence } from '../utils/recurrence';
 
 const DashboardPage: React.FC = () => {
-  const { isConnected } = useWallet();
-  const { memories } = useMemory();
+  const { isConnected, accounts, activeAccount } = useWallet();
+  const { memories, combinedMemories, exportArchive, importArchive, exportGift, checkIn, clockStatus } = useMemory();
   const location = useLocation();
   const [filter, setFilter] = useState<'all' | 'locked' | 'unlocked'>('all');
+  const [showAllAccounts, setShowAllAccounts] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
 
   if (!isConnected) {
     return <Navigate to="/" replace />;
@@ -26,7 +34,99 @@ const DashboardPage: React.FC = () => {
     }
   }, [location.state]);
 
-  const filteredMemories = memories.filter(memory => {
+  const handleExport = async () => {
+    const passphrase = prompt('Choose a passphrase to protect the keys inside this archive:');
+    if (!passphrase) return;
+
+    setIsArchiving(true);
+    try {
+      const archive = await exportArchive(passphrase);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chronolock-${new Date().toISOString().slice(0, 10)}${ARCHIVE_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert(`Failed to export your archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // A gift file holds only that gift, its key wrapped for the recipient
+  const handleExportGift = async (memoryId: string) => {
+    try {
+      const gift = await exportGift(memoryId);
+      const url = URL.createObjectURL(gift);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `chronolock-gift-${memoryId}${ARCHIVE_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Gift export failed:', error);
+      alert(`Failed to export this gift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const passphrase = prompt('Enter the passphrase this archive was exported with:');
+    if (!passphrase) return;
+
+    setIsArchiving(true);
+    try {
+      const { imported, skipped, approvalsMerged } = await importArchive(file, passphrase);
+      setSuccessMessage(
+        `${imported.length} ${imported.length === 1 ? 'memory' : 'memories'} returned to your archive` +
+        (skipped.length ? `, ${skipped.length} already here` : '') +
+        (approvalsMerged.length ? `, ${approvalsMerged.length} with new trustee approvals` : '')
+      );
+      setTimeout(() => setSuccessMessage(null), 5000);
+    } catch (error) {
+      console.error('Import failed:', error);
+      alert(`Failed to import the archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    setIsCheckingIn(true);
+    try {
+      await checkIn();
+      setSuccessMessage('Checked in. Your switches are quiet for another while.');
+      setTimeout(() => setSuccessMessage(null), 5000);
+    } catch (error) {
+      console.error('Check-in failed:', error);
+      alert(`Failed to check in: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  // The earliest deadline among switches that have not lapsed
+  const pendingSwitches = memories.filter(memory => memory.checkIn && memory.isLocked);
+  const nextCheckInDeadline = pendingSwitches.length > 0
+    ? new Date(Math.min(...pendingSwitches.map(memory => memory.unlockDate.getTime())))
+    : null;
+
+  // The combined archive only makes sense with more than one account connected
+  const isCombined = showAllAccounts && accounts.length > 1;
+  const archive = isCombined ? combinedMemories : memories;
+
+  // Referenced memories are named only once their own titles are readable
+  const titleOf = (memoryId: string) => {
+    const other = archive.find(memory => memory.id === memoryId);
+    return other && !other.isLocked ? other.title : undefined;
+  };
+
+  const filteredMemories = archive.filter(memory => {
     if (filter === 'locked') return memory.isLocked;
     if (filter === 'unlocked') return !memory.isLocked;
     return true;
@@ -122,13 +222,58 @@ const DashboardPage: React.FC = () => {
         </p>
       </div>
 
+      {/* Trusted time warnings */}
+      {clockStatus?.warning && (
+        <div className="glass-soft p-6 mb-12 border border-amber-500/30 rounded-2xl flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-starlight-300 font-serif text-sm">{clockStatus.warning}</p>
+        </div>
+      )}
+      {clockStatus && (!clockStatus.trustedTime || clockStatus.isSkewed) && (
+        <div className="glass-soft p-6 mb-12 border border-amber-500/30 rounded-2xl flex items-start space-x-3">
+          <AlertTriangle className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-starlight-300 font-serif text-sm">
+            {!clockStatus.trustedTime
+              ? 'Trusted time cannot be reached right now, so every memory stays sealed until it returns.'
+              : `Your device clock is ${formatDistanceToNow(Date.now() - Math.abs(clockStatus.skewMs ?? 0))} ${
+                  (clockStatus.skewMs ?? 0) > 0 ? 'ahead' : 'behind'
+                }. Memories open by trusted time, not by this clock.`}
+          </p>
+        </div>
+      )}
+
+      {/* Check-in Switches */}
+      {nextCheckInDeadline && (
+        <div className="glass-soft p-6 mb-12 border border-nebula-500/30 rounded-2xl flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-start space-x-3">
+            <HeartPulse className="h-5 w-5 text-nebula-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-starlight-200 font-serif">
+                Next check-in due {formatInTimeZone(nextCheckInDeadline)}
+              </p>
+              <p className="text-whisper text-sm mt-1">
+                In {formatDistanceToNow(nextCheckInDeadline)}, {pendingSwitches.length === 1 ? 'a whisper' : 'whispers'} will be released to {pendingSwitches.length === 1 ? 'its recipient' : 'their recipients'} unless you check in.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleCheckIn}
+            disabled={isCheckingIn}
+            className="button-primary flex items-center justify-center space-x-2 px-6 py-3 font-serif text-sm disabled:opacity-50"
+          >
+            <HeartPulse className="h-4 w-4" />
+            <span>{isCheckingIn ? 'Checking in...' : 'I\'m Still Here'}</span>
+          </button>
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid md:grid-cols-3 gap-8 mb-16">
         <div className="glass-soft p-8 text-center group hover:shadow-ethereal transition-all duration-500">
           <div className="flex items-center justify-center mb-4">
             <Heart className="h-12 w-12 text-nebula-400 group-hover:scale-110 transition-transform duration-300" />
           </div>
-          <p className="text-4xl font-display font-light text-starlight-100 mb-2">{memories.length}</p>
+          <p className="text-4xl font-display font-light text-starlight-100 mb-2">{archive.length}</p>
           <p className="text-starlight-300 font-serif">Sacred Memories</p>
           <p className="text-whisper mt-2">Whispers across time</p>
         </div>
@@ -137,7 +282,7 @@ const DashboardPage: React.FC = () => {
             <Lock className="h-12 w-12 text-cosmos-400 group-hover:scale-110 transition-transform duration-300" />
           </div>
           <p className="text-4xl font-display font-light text-starlight-100 mb-2">
-            {memories.filter(m => m.isLocked).length}
+            {archive.filter(m => m.isLocked).length}
           </p>
           <p className="text-starlight-300 font-serif">Time-Locked</p>
           <p className="text-whisper mt-2">Awaiting their moment</p>
@@ -147,13 +292,64 @@ const DashboardPage: React.FC = () => {
             <Star className="h-12 w-12 text-aurora-400 group-hover:scale-110 transition-transform duration-300" />
           </div>
           <p className="text-4xl font-display font-light text-starlight-100 mb-2">
-            {memories.filter(m => !m.isLocked).length}
+            {archive.filter(m => !m.isLocked).length}
           </p>
           <p className="text-starlight-300 font-serif">Ready to Listen</p>
           <p className="text-whisper mt-2">Calling to your heart</p>
         </div>
       </div>
 
+      {/* Archive Transfer */}
+      <div className="flex justify-center space-x-4 mb-12">
+        <button
+          onClick={handleExport}
+          disabled={isArchiving || memories.length === 0}
+          className="flex items-center space-x-2 px-5 py-3 text-sm font-serif bg-white/[0.06] text-starlight-300 rounded-xl hover:bg-white/[0.12] hover:text-starlight-200 transition-all duration-300 border border-white/[0.08] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export Archive</span>
+        </button>
+        <button
+          onClick={() => archiveInputRef.current?.click()}
+          disabled={isArchiving}
+          className="flex items-center space-x-2 px-5 py-3 text-sm font-serif bg-white/[0.06] text-starlight-300 rounded-xl hover:bg-white/[0.12] hover:text-starlight-200 transition-all duration-300 border border-white/[0.08] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload className="h-4 w-4" />
+          <span>Import Archive</span>
+        </button>
+        <input
+          ref={archiveInputRef}
+          type="file"
+          accept={ARCHIVE_FILE_EXTENSION}
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {/* Account Scope */}
+      {accounts.length > 1 && (
+        <div className="flex justify-center mb-8">
+          <div className="glass-soft rounded-2xl p-2">
+            {[
+              { combined: false, label: 'This Account' },
+              { combined: true, label: `All ${accounts.length} Accounts` }
+            ].map(option => (
+              <button
+                key={option.label}
+                onClick={() => setShowAllAccounts(option.combined)}
+                className={`px-6 py-3 text-sm font-serif rounded-xl transition-all duration-300 ${
+                  isCombined === option.combined
+                    ? 'bg-white/[0.12] text-starlight-100 shadow-ethereal'
+                    : 'text-starlight-300 hover:text-starlight-100 hover:bg-white/[0.06]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filter Tabs */}
       <div className="flex justify-center mb-16">
         <div className="glass-soft rounded-2xl p-2 max-w-md">
@@ -221,11 +417,114 @@ const DashboardPage: React.FC = () => {
                   {memory.isLocked ? <Lock className="h-3 w-3" /> : <Star className="h-3 w-3" />}
                   <span>{memory.isLocked ? 'Locked in time' : 'Ready to hear'}</span>
                 </div>
-                <span className="text-xs text-starlight-400 font-mono">
-                  {formatDuration(memory.duration)}
-                </span>
+                <div className="flex items-center space-x-2">
+                  {memory.integrity === 'verified' && (
+                    <span title="Sealed and signed by your wallet">
+                      <ShieldCheck className="h-4 w-4 text-aurora-400" />
+                    </span>
+                  )}
+                  <span className="text-xs text-starlight-400 font-mono">
+                    {formatDuration(memory.duration)}
+                  </span>
+                </div>
               </div>
 
+              {/* Integrity Warning */}
+              {memory.integrity === 'tampered' && (
+                <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-serif">
+                  <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                  <span>Altered after it was sealed. This memory will not open.</span>
+                </div>
+              )}
+              {memory.integrity === 'unsigned' && (
+                <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-serif">
+                  <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                  <span>Not signed by a wallet, so a change to when it opens would go unnoticed.</span>
+                </div>
+              )}
+
+              {/* Owner, when several accounts share the view */}
+              {isCombined && memory.userAddress && (
+                <div className="flex items-center space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <Wallet className="h-3 w-3 flex-shrink-0" />
+                  {memory.userAddress === activeAccount ? (
+                    <span>Recorded by this account</span>
+                  ) : (
+                    <span>
+                      Recorded by <span className="font-mono" title={memory.userAddress}>{memory.userAddress.slice(0, 6)}...{memory.userAddress.slice(-4)}</span>
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* Sent Gift */}
+              {memory.recipient && (
+                <div className="flex items-center space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <Gift className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    Gift for <span className="font-mono" title={memory.recipient}>{memory.recipient.slice(0, 6)}...{memory.recipient.slice(-4)}</span>
+                  </span>
+                  {memory.userAddress === activeAccount && (
+                    <button
+                      onClick={() => handleExportGift(memory.id)}
+                      className="flex items-center space-x-1 text-starlight-300 hover:text-starlight-100 transition-colors"
+                      title="Download a file holding only this gift, for its recipient to import"
+                    >
+                      <Download className="h-3 w-3" />
+                      <span>Gift file</span>
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Check-in Switch */}
+              {memory.checkIn && (
+                <div className="flex items-center space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <HeartPulse className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    {memory.isLocked
+                      ? `Released unless you check in by ${formatInTimeZone(memory.unlockDate)}`
+                      : 'Released after you stopped checking in'}
+                  </span>
+                </div>
+              )}
+
+              {/* Recurrence */}
+              {memory.recurrence && (
+                <div className="flex items-start space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <Repeat className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                  <span>
+                    Returns {describeRecurrence(memory.recurrence.rule)}
+                    {memory.recurrence.windowEnds
+                      ? ` · open until ${formatInTimeZone(memory.recurrence.windowEnds, memory.unlockTimeZone)}`
+                      : memory.recurrence.nextOpening
+                        ? ` · reopens ${formatInTimeZone(memory.recurrence.nextOpening, memory.unlockTimeZone)}`
+                        : ' · no occurrences remain'}
+                    {memory.recurrence.history.length > 0 &&
+                      ` · opened ${memory.recurrence.history.length} ${memory.recurrence.history.length === 1 ? 'time' : 'times'}`}
+                  </span>
+                </div>
+              )}
+
+              {/* Pending Unlock Condition */}
+              {memory.pendingCondition && (
+                <div className="flex items-start space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <GitBranch className="h-3 w-3 flex-shrink-0 mt-0.5" />
+                  <span>Also waits until {describeCondition(memory.pendingCondition, titleOf)}</span>
+                </div>
+              )}
+
+              {/* Trustee Quorum */}
+              {memory.trustees && (
+                <div className="flex items-center space-x-2 mb-4 text-xs text-starlight-400 font-serif">
+                  <Users className="h-3 w-3 flex-shrink-0" />
+                  <span>
+                    Opens with {memory.trustees.threshold} of {memory.trustees.addresses.length} trustees
+                    {' '}({memory.trustees.approvedBy.length} approved)
+                  </span>
+                </div>
+              )}
+
               {/* Title */}
               <h3 className="text-xl font-display font-medium text-starlight-100 mb-4 line-clamp-2 group-hover:text-glow-soft transition-all duration-300">
                 {memory.title}
@@ -267,7 +566,7 @@ const DashboardPage: React.FC = () => {
                   <Clock className="h-3 w-3 mr-2" />
                   <span className="font-serif">
                     {memory.isLocked 
-                      ? `Unlocks in ${formatDistanceToNow(memory.unlockDate)}`
+                      ? `Unlocks in ${formatDistanceToNow(memory.recurrence?.nextOpening ?? memory.unlockDate)}`
                       : `Unlocked ${formatDistanceToNow(memory.unlockDate)} ago`
                     }
                   </span>
@@ -275,9 +574,17 @@ const DashboardPage: React.FC = () => {
               </div>
 
               {/* Action Button */}
-              {memory.isLocked ? (
+              {memory.isLocked && memory.puzzle && memory.integrity !== 'tampered' ? (
+                <Link
+                  to={`/playback/${memory.id}`}
+                  className="w-full flex items-center justify-center space-x-3 py-4 text-sm text-starlight-300 bg-white/[0.02] hover:bg-white/[0.05] rounded-xl border border-white/[0.06] font-serif transition-colors"
+                >
+                  <Hourglass className="h-4 w-4" />
+                  <span>Puzzle {Math.floor((memory.puzzle.squaringsDone / memory.puzzle.squarings) * 100)}% solved</span>
+                </Link>
+              ) : memory.isLocked ? (
                 <div className="w-full py-4 text-center text-sm text-starlight-400 bg-white/[0.02] rounded-xl border border-white/[0.06] font-serif">
-                  Locked until {memory.unlockDate.toLocaleDateString()}
+                  Locked until {formatInTimeZone(memory.recurrence?.nextOpening ?? memory.unlockDate, memory.unlockTimeZone)}
                   <p className="text-whisper text-xs mt-1">Patience, dear soul</p>
                 </div>
               ) : (
@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import { Navigate, Link } from 'react-router-dom';
+import { Gift, Lock, Star, Play, Key, Calendar, Clock, ShieldCheck, ShieldAlert, Moon, Upload } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useWallet } from '../contexts/WalletContext';
+import { useMemory, VoiceMemory } from '../contexts/MemoryContext';
+import { formatInTimeZone } from '../utils/timezone';
+import { ARCHIVE_FILE_EXTENSION } from '../utils/archive';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const InboxPage: React.FC = () => {
+  const { isConnected, canEnterMnemonic } = useWallet();
+  const { inbox, claimGift, importArchive } = useMemory();
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const giftInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isConnected) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleClaim = async (memory: VoiceMemory) => {
+    // Wallet apps keep secret keys to themselves, so the recipient's mnemonic is asked for
+    // instead, and only for test accounts
+    if (!canEnterMnemonic) return;
+    const mnemonic = prompt(
+      'Enter the 25-word mnemonic of the receiving account. It is only used on this device to unwrap the gift and is never stored.'
+    );
+    if (!mnemonic) return;
+
+    setClaimingId(memory.id);
+    try {
+      await claimGift(memory.id, mnemonic);
+    } catch (error) {
+      console.error('Failed to open gift:', error);
+      alert(`Could not open this gift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  // Gift files carry no keys of their own, so no passphrase is asked for
+  const handleImportGift = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { imported, skipped } = await importArchive(file);
+      alert(imported.length ? 'The gift has found its way to you.' : `This gift is already here (${skipped.length}).`);
+    } catch (error) {
+      console.error('Gift import failed:', error);
+      alert(`Could not import this gift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      {/* Header */}
+      <div className="text-center mb-20">
+        <h1 className="text-5xl md:text-6xl font-display font-light text-starlight-100 mb-6 text-glow-soft">
+          Your Inbox
+        </h1>
+        <p className="text-xl text-starlight-400 max-w-3xl mx-auto font-serif italic poetry-spacing">
+          Voices others have sent across time, addressed to you alone.
+        </p>
+      </div>
+
+      {/* Gift Files */}
+      <div className="flex justify-center mb-12">
+        <button
+          onClick={() => giftInputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center space-x-2 px-5 py-3 text-sm font-serif bg-white/[0.06] text-starlight-300 rounded-xl hover:bg-white/[0.12] hover:text-starlight-200 transition-all duration-300 border border-white/[0.08] disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload className="h-4 w-4" />
+          <span>{isImporting ? 'Receiving...' : 'Import a Gift File'}</span>
+        </button>
+        <input
+          ref={giftInputRef}
+          type="file"
+          accept={ARCHIVE_FILE_EXTENSION}
+          onChange={handleImportGift}
+          className="hidden"
+        />
+      </div>
+
+      {inbox.length === 0 ? (
+        <div className="text-center py-20">
+          <div className="glass-soft p-16 max-w-2xl mx-auto">
+            <Moon className="h-20 w-20 text-starlight-400 mx-auto mb-8 animate-pulse-gentle" />
+            <h3 className="text-3xl font-display font-light text-starlight-100 mb-6">
+              No Gifts Yet
+            </h3>
+            <p className="text-starlight-300 font-serif poetry-spacing">
+              When someone seals a whisper for you, it will wait here. Gifts reach this device through
+              shared storage, or through an archive the sender exports and you import.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {inbox.map(memory => (
+            <div
+              key={memory.id}
+              className="glass-soft p-8 hover:shadow-ethereal transition-all duration-500 hover:scale-[1.02] group"
+            >
+              {/* Status Badge */}
+              <div className="flex items-center justify-between mb-6">
+                <div className={`inline-flex items-center space-x-2 px-4 py-2 rounded-full text-xs font-serif ${
+                  memory.isLocked
+                    ? 'bg-cosmos-500/20 text-cosmos-300 border border-cosmos-500/30'
+                    : 'bg-aurora-500/20 text-aurora-300 border border-aurora-500/30'
+                }`}>
+                  {memory.isLocked ? <Lock className="h-3 w-3" /> : <Star className="h-3 w-3" />}
+                  <span>
+                    {memory.awaitingKey ? 'Ready to unwrap' : memory.isLocked ? 'Locked in time' : 'Ready to hear'}
+                  </span>
+                </div>
+                {memory.integrity === 'verified' && (
+                  <span title="Sealed and signed by the sender's wallet">
+                    <ShieldCheck className="h-4 w-4 text-aurora-400" />
+                  </span>
+                )}
+              </div>
+
+              {/* Integrity Warning */}
+              {memory.integrity === 'tampered' && (
+                <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-serif">
+                  <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                  <span>Altered after it was sealed. This gift will not open.</span>
+                </div>
+              )}
+              {memory.integrity === 'unsigned' && (
+                <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-serif">
+                  <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                  <span>Not signed by the sender's wallet. It may have been changed on its way to you.</span>
+                </div>
+              )}
+
+              <h3 className="text-xl font-display font-medium text-starlight-100 mb-4 line-clamp-2">
+                {memory.title}
+              </h3>
+
+              <div className="space-y-3 mb-8">
+                {memory.userAddress && (
+                  <div className="flex items-center text-xs text-starlight-400">
+                    <Gift className="h-3 w-3 mr-2" />
+                    <span className="font-serif">
+                      From <span className="font-mono" title={memory.userAddress}>{shortenAddress(memory.userAddress)}</span>
+                    </span>
+                  </div>
+                )}
+                <div className="flex items-center text-xs text-starlight-400">
+                  <Calendar className="h-3 w-3 mr-2" />
+                  <span className="font-serif">Sent {formatDistanceToNow(memory.createdDate)} ago</span>
+                </div>
+                <div className="flex items-center text-xs text-starlight-400">
+                  <Clock className="h-3 w-3 mr-2" />
+                  <span className="font-serif">
+                    {memory.unlockDate > new Date()
+                      ? memory.checkIn
+                        ? `Opens if the sender has not checked in by ${formatInTimeZone(memory.unlockDate)}`
+                        : `Opens ${formatInTimeZone(memory.unlockDate, memory.unlockTimeZone)}`
+                      : `Opened ${formatDistanceToNow(memory.unlockDate)} ago`}
+                  </span>
+                </div>
+              </div>
+
+              {memory.awaitingKey && memory.integrity !== 'tampered' && !canEnterMnemonic ? (
+                <div className="w-full py-4 px-4 text-center text-sm text-starlight-400 bg-white/[0.02] rounded-xl border border-white/[0.06] font-serif">
+                  Only a test account can unwrap this gift
+                  <p className="text-whisper text-xs mt-1">Unwrapping needs the account's mnemonic, which real wallets never reveal. Connect on LocalNet or with a development wallet.</p>
+                </div>
+              ) : memory.awaitingKey && memory.integrity !== 'tampered' ? (
+                <button
+                  onClick={() => handleClaim(memory)}
+                  disabled={claimingId === memory.id}
+                  className="w-full button-primary flex items-center justify-center space-x-3 py-4 font-serif font-medium transition-all duration-500 disabled:opacity-50"
+                >
+                  <Key className="h-4 w-4" />
+                  <span>{claimingId === memory.id ? 'Unwrapping...' : 'Unwrap with Your Account Key'}</span>
+                </button>
+              ) : memory.isLocked ? (
+                <div className="w-full py-4 text-center text-sm text-starlight-400 bg-white/[0.02] rounded-xl border border-white/[0.06] font-serif">
+                  Locked until {formatInTimeZone(memory.unlockDate, memory.unlockTimeZone)}
+                  <p className="text-whisper text-xs mt-1">Someone is thinking of you</p>
+                </div>
+              ) : (
+                <Link
+                  to={`/playback/${memory.id}`}
+                  className="w-full button-primary flex items-center justify-center space-x-3 py-4 font-serif font-medium transition-all duration-500"
+                >
+                  <Play className="h-4 w-4" />
+                  <span>Listen to Their Voice</span>
+                </Link>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InboxPage;
@@ -1,20 +1,105 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, Navigate, Link } from 'react-router-dom';
-import { Play, Pause, ArrowLeft, Heart, Calendar, Clock } from 'lucide-react';
+import { Play, Pause, ArrowLeft, Heart, Calendar, Clock, Database, Download, Hourglass, GitBranch, Repeat, BadgeCheck, ShieldAlert, UserRound, Anchor } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useWallet } from '../contexts/WalletContext';
 import { useMemory } from '../contexts/MemoryContext';
 import EmotionVisualizer from '../components/EmotionVisualizer';
+import { transcodeToWav } from '../utils/audio';
+import type { PuzzleStatus } from '../utils/storage';
+import type { AnchorStatus } from '../utils/noteAnchor';
+import { formatInTimeZone } from '../utils/timezone';
+import { describeCondition } from '../utils/unlockCondition';
+import { describeRecurrence } from '../utils/recurrence';
 
 const PlaybackPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
-  const { isConnected } = useWallet();
-  const { getMemory } = useMemory();
+  const { isConnected, network } = useWallet();
+  const { getMemory, loadAudio, solvePuzzle, recordListen, checkAnchor } = useMemory();
   
-  const [memory, setMemory] = useState(getMemory(id || ''));
+  // Read from the context so the page follows refreshes, e.g. after a puzzle is solved
+  const memory = getMemory(id || '');
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [puzzleProgress, setPuzzleProgress] = useState<PuzzleStatus | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+  const [puzzleError, setPuzzleError] = useState<string | null>(null);
+  const [anchorStatus, setAnchorStatus] = useState<AnchorStatus | null>(null);
+  const solverRef = useRef<AbortController | null>(null);
+  // One listen is counted per visit, however often playback is paused and resumed
+  const countedListenRef = useRef<string | null>(null);
+
+  // Stop the solver when leaving the page; progress is kept for next time
+  useEffect(() => () => solverRef.current?.abort(), []);
+
+  // Audio is decrypted only once the memory is actually opened. Keyed on id and lock state,
+  // since every refresh hands out a new memory object.
+  const openMemoryId = memory && !memory.isLocked ? memory.id : null;
+  useEffect(() => {
+    if (!openMemoryId) return;
+
+    let cancelled = false;
+    let audio: HTMLAudioElement | null = null;
+    let audioUrl: string | null = null;
+    setAudioError(null);
+
+    loadAudio(openMemoryId)
+      .then(blob => {
+        if (cancelled) return;
+        audioUrl = URL.createObjectURL(blob);
+        audio = new Audio(audioUrl);
+        audio.addEventListener('timeupdate', () => {
+          setCurrentTime(audio!.currentTime);
+        });
+        audio.addEventListener('ended', () => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        });
+        setAudioBlob(blob);
+        setAudioElement(audio);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load audio:', error);
+        setAudioError(error instanceof Error ? error.message : 'Unable to open this memory');
+      });
+
+    return () => {
+      cancelled = true;
+      if (audio) {
+        audio.pause();
+      }
+      if (audioUrl) {
+        URL.revokeObjectURL(audioUrl);
+      }
+      setAudioElement(null);
+      setAudioBlob(null);
+    };
+  }, [openMemoryId, loadAudio]);
+
+  // The stored txid and round are only a claim until the chain confirms them
+  const anchoredTxId = openMemoryId ? memory?.anchor?.txId : undefined;
+  useEffect(() => {
+    setAnchorStatus(null);
+    if (!openMemoryId || !anchoredTxId) return;
+
+    let cancelled = false;
+    checkAnchor(openMemoryId)
+      .then(status => {
+        if (!cancelled) setAnchorStatus(status ?? null);
+      })
+      .catch(error => {
+        console.error('Failed to verify the anchor:', error);
+        if (!cancelled) setAnchorStatus('unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [openMemoryId, anchoredTxId, checkAnchor]);
 
   if (!isConnected) {
     return <Navigate to="/" replace />;
@@ -40,15 +125,95 @@ const PlaybackPage: React.FC = () => {
     );
   }
 
-  if (memory.isLocked) {
+  const startSolving = async () => {
+    const controller = new AbortController();
+    solverRef.current = controller;
+    setIsSolving(true);
+    setPuzzleError(null);
+    try {
+      await solvePuzzle(memory.id, setPuzzleProgress, controller.signal);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Puzzle solving failed:', error);
+        setPuzzleError(error instanceof Error ? error.message : 'Unable to solve the puzzle');
+      }
+    } finally {
+      setIsSolving(false);
+    }
+  };
+
+  const pauseSolving = () => {
+    solverRef.current?.abort();
+  };
+
+  if (memory.isLocked && memory.puzzle && memory.integrity !== 'tampered') {
+    const status = puzzleProgress ?? memory.puzzle;
+    const fraction = status.squaringsDone / status.squarings;
+    const secondsLeft = (status.squarings - status.squaringsDone) / status.calibratedRate;
+
     return (
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
         <div className="glass-soft p-16">
-          <Clock className="h-16 w-16 text-cosmos-400 mx-auto mb-6" />
-          <h2 className="text-3xl font-display text-starlight-100 mb-4">Still Locked in Time</h2>
+          <Hourglass className="h-16 w-16 text-cosmos-400 mx-auto mb-6" />
+          <h2 className="text-3xl font-display text-starlight-100 mb-4">Sealed by a Puzzle</h2>
+          <p className="text-starlight-400 font-serif mb-8 poetry-spacing">
+            This memory opens only once its puzzle is solved, one patient step after another.
+            Keep this page open; progress is kept if you leave.
+          </p>
+
+          <div className="w-full h-2 bg-white/[0.1] rounded-full overflow-hidden mb-3">
+            <div
+              className="h-full bg-gradient-to-r from-cosmos-500 to-aurora-500 transition-all duration-500"
+              style={{ width: `${fraction * 100}%` }}
+            />
+          </div>
+          <p className="text-whisper mb-8">
+            {(fraction * 100).toFixed(2)}% solved
+            {fraction < 1 && ` · about ${formatDistanceToNow(Date.now() + secondsLeft * 1000)} remaining at the sealing device's pace`}
+          </p>
+
+          {puzzleError && (
+            <p className="text-red-300 font-serif text-sm mb-6">{puzzleError}</p>
+          )}
+
+          <div className="flex items-center justify-center space-x-4">
+            <button
+              onClick={isSolving ? pauseSolving : startSolving}
+              className="button-primary inline-flex items-center space-x-2 px-6 py-3"
+            >
+              {isSolving ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              <span>{isSolving ? 'Pause Solving' : status.squaringsDone > 0 ? 'Resume Solving' : 'Begin Solving'}</span>
+            </button>
+            <Link
+              to="/dashboard"
+              className="inline-flex items-center space-x-2 text-starlight-400 hover:text-starlight-200 transition-colors font-serif"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Return to Archive</span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (memory.isLocked && memory.recurrence && memory.recurrence.history.length > 0) {
+    const { nextOpening } = memory.recurrence;
+
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="glass-soft p-16">
+          <Repeat className="h-16 w-16 text-cosmos-400 mx-auto mb-6" />
+          <h2 className="text-3xl font-display text-starlight-100 mb-4">Resting Until It Returns</h2>
           <p className="text-starlight-400 font-serif mb-8 poetry-spacing">
-            This memory awaits its destined moment. Return when the stars align on{' '}
-            <em>{memory.unlockDate.toLocaleDateString()}</em>.
+            This memory has sealed itself again after its listening window. It returns{' '}
+            {describeRecurrence(memory.recurrence.rule)}
+            {nextOpening
+              ? <>, next on <em>{formatInTimeZone(nextOpening, memory.unlockTimeZone)}</em>.</>
+              : ', though its last occurrence has passed.'}
+          </p>
+          <p className="text-whisper mb-8">
+            Opened on {memory.recurrence.history.map(occurrence => occurrence.toLocaleDateString()).join(', ')}
           </p>
           <Link
             to="/dashboard"
@@ -62,32 +227,43 @@ const PlaybackPage: React.FC = () => {
     );
   }
 
-  useEffect(() => {
-    if (!memory.audioUrl) return;
-
-    // Create audio element
-    const audio = new Audio(memory.audioUrl);
-    audio.addEventListener('timeupdate', () => {
-      setCurrentTime(audio.currentTime);
-    });
-    audio.addEventListener('ended', () => {
-      setIsPlaying(false);
-      setCurrentTime(0);
-    });
-    audio.addEventListener('loadedmetadata', () => {
-      // Audio is ready to play
-    });
-    setAudioElement(audio);
+  if (memory.isLocked) {
+    const isDue = memory.unlockDate <= new Date();
 
-    return () => {
-      if (audio) {
-        audio.pause();
-        audio.removeEventListener('timeupdate', () => {});
-        audio.removeEventListener('ended', () => {});
-        audio.removeEventListener('loadedmetadata', () => {});
-      }
-    };
-  }, [memory.audioUrl]);
+    return (
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 text-center">
+        <div className="glass-soft p-16">
+          <Clock className="h-16 w-16 text-cosmos-400 mx-auto mb-6" />
+          <h2 className="text-3xl font-display text-starlight-100 mb-4">Still Locked in Time</h2>
+          {!isDue && (
+            <p className="text-starlight-400 font-serif mb-8 poetry-spacing">
+              This memory awaits its destined moment. Return when the stars align on{' '}
+              <em>{formatInTimeZone(memory.unlockDate, memory.unlockTimeZone)}</em>.
+            </p>
+          )}
+          {memory.pendingCondition && (
+            <div className="flex items-start justify-center space-x-2 mb-8 text-starlight-300 font-serif poetry-spacing">
+              <GitBranch className="h-4 w-4 flex-shrink-0 mt-1 text-cosmos-400" />
+              <p>
+                {isDue ? 'Its date has come, but it' : 'It'} also waits until{' '}
+                {describeCondition(memory.pendingCondition, memoryId => {
+                  const other = getMemory(memoryId);
+                  return other && !other.isLocked ? other.title : undefined;
+                })}.
+              </p>
+            </div>
+          )}
+          <Link
+            to="/dashboard"
+            className="button-primary inline-flex items-center space-x-2 px-6 py-3"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Return to Archive</span>
+          </Link>
+        </div>
+      </div>
+    );
+  }
 
   const togglePlayback = () => {
     if (!audioElement) return;
@@ -95,6 +271,10 @@ const PlaybackPage: React.FC = () => {
     if (isPlaying) {
       audioElement.pause();
     } else {
+      if (countedListenRef.current !== memory.id) {
+        countedListenRef.current = memory.id;
+        recordListen(memory.id).catch(error => console.error('Failed to count listen:', error));
+      }
       audioElement.play().catch(error => {
         console.error('Playback failed:', error);
         alert('Unable to play audio. The memory may be corrupted.');
@@ -103,6 +283,27 @@ const PlaybackPage: React.FC = () => {
     setIsPlaying(!isPlaying);
   };
 
+  // PCM WAV plays everywhere, unlike the WebM/MP4 the browser recorded
+  const exportWav = async () => {
+    if (!audioBlob) return;
+
+    setIsExporting(true);
+    try {
+      const wav = await transcodeToWav(audioBlob);
+      const url = URL.createObjectURL(wav);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${memory.title || memory.id}.wav`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('WAV export failed:', error);
+      alert('Unable to convert this memory to WAV.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -160,6 +361,27 @@ const PlaybackPage: React.FC = () => {
                 Recorded with {memory.emotion.tone.toLowerCase()} emotion
               </span>
             </div>
+            {memory.authorship === 'verified' && (
+              <div
+                className="inline-flex items-center space-x-2 px-4 py-2 mb-4 rounded-full text-xs font-serif bg-aurora-500/20 text-aurora-300 border border-aurora-500/30"
+                title="The sender's wallet signed this memory when it was recorded"
+              >
+                <BadgeCheck className="h-3 w-3" />
+                <span>Verified sender</span>
+              </div>
+            )}
+            {memory.authorship === 'invalid' && (
+              <div className="flex items-center space-x-2 mb-4 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-serif">
+                <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                <span>The sender's signature does not match this memory. It may not be who it claims to be from.</span>
+              </div>
+            )}
+            {memory.integrity === 'unsigned' && (
+              <div className="flex items-center space-x-2 mb-4 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-serif">
+                <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                <span>No wallet signed this memory's seal, so nothing proves it is unchanged since it was recorded.</span>
+              </div>
+            )}
             <h1 className="text-4xl font-display font-light text-starlight-100 mb-6 text-glow-soft">
               {memory.title}
             </h1>
@@ -172,6 +394,19 @@ const PlaybackPage: React.FC = () => {
 
           {/* Memory Info */}
           <div className="space-y-6 mb-12">
+            {memory.userAddress && (
+              <div className="flex items-center text-starlight-300">
+                <UserRound className="h-5 w-5 mr-4 text-aurora-400" />
+                <div className="min-w-0">
+                  <p className="font-serif font-medium">
+                    {memory.authorship === 'verified' ? 'Recorded By (verified)' : 'Recorded By'}
+                  </p>
+                  <p className="text-sm text-starlight-400 font-mono truncate" title={memory.userAddress}>
+                    {memory.userAddress}
+                  </p>
+                </div>
+              </div>
+            )}
             <div className="flex items-center text-starlight-300">
               <Calendar className="h-5 w-5 mr-4 text-aurora-400" />
               <div>
@@ -187,11 +422,59 @@ const PlaybackPage: React.FC = () => {
               <div>
                 <p className="font-serif font-medium">Unlocked</p>
                 <p className="text-sm text-starlight-400">
-                  {memory.unlockDate.toLocaleDateString()} 
+                  {formatInTimeZone(memory.unlockDate, memory.unlockTimeZone)} 
                   ({formatDistanceToNow(memory.unlockDate)} ago)
                 </p>
               </div>
             </div>
+            {memory.recurrence?.windowEnds && (
+              <div className="flex items-center text-starlight-300">
+                <Repeat className="h-5 w-5 mr-4 text-aurora-400" />
+                <div>
+                  <p className="font-serif font-medium">Seals Again</p>
+                  <p className="text-sm text-starlight-400">
+                    {formatInTimeZone(memory.recurrence.windowEnds, memory.unlockTimeZone)}
+                    {' '}(returns {describeRecurrence(memory.recurrence.rule)})
+                  </p>
+                </div>
+              </div>
+            )}
+            {memory.anchor && (
+              <div className="flex items-center text-starlight-300">
+                <Anchor className={`h-5 w-5 mr-4 ${anchorStatus === 'mismatch' ? 'text-amber-400' : 'text-aurora-400'}`} />
+                <div className="min-w-0">
+                  <p className="font-serif font-medium">
+                    {anchorStatus === 'verified'
+                      ? `Anchored in Round ${memory.anchor.confirmedRound.toLocaleString()}`
+                      : anchorStatus === 'mismatch'
+                        ? 'Anchor does not match this memory'
+                        : anchorStatus === 'unavailable'
+                          ? 'Anchor could not be checked'
+                          : 'Checking the anchor...'}
+                  </p>
+                  <a
+                    href={`${network.explorerUrl}/transaction/${memory.anchor.txId}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-sm text-starlight-400 hover:text-starlight-200 font-mono truncate transition-colors"
+                    title={memory.anchor.txId}
+                  >
+                    {memory.anchor.txId}
+                  </a>
+                </div>
+              </div>
+            )}
+            {memory.cid && (
+              <div className="flex items-center text-starlight-300">
+                <Database className="h-5 w-5 mr-4 text-aurora-400" />
+                <div className="min-w-0">
+                  <p className="font-serif font-medium">Pinned on IPFS</p>
+                  <p className="text-sm text-starlight-400 font-mono truncate" title={memory.cid}>
+                    {memory.cid}
+                  </p>
+                </div>
+              </div>
+            )}
             <div className="flex items-center text-starlight-300">
               <Heart className="h-5 w-5 mr-4 text-nebula-400" />
               <div>
@@ -220,7 +503,8 @@ const PlaybackPage: React.FC = () => {
               </span>
               <button
                 onClick={togglePlayback}
-                className="flex items-center justify-center w-16 h-16 button-primary rounded-full transition-all transform hover:scale-105"
+                disabled={!audioElement}
+                className="flex items-center justify-center w-16 h-16 button-primary rounded-full transition-all transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
               >
                 {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6 ml-0.5" />}
               </button>
@@ -235,8 +519,21 @@ const PlaybackPage: React.FC = () => {
             </div>
             
             <p className="text-whisper text-center mt-4">
-              {isPlaying ? 'Your past self speaks...' : 'Ready to listen to your whisper'}
+              {audioError
+                ? audioError
+                : !audioElement
+                  ? 'Unsealing your whisper...'
+                  : isPlaying ? 'Your past self speaks...' : 'Ready to listen to your whisper'}
             </p>
+
+            <button
+              onClick={exportWav}
+              disabled={!audioBlob || isExporting}
+              className="mt-6 mx-auto flex items-center space-x-2 text-sm font-serif text-starlight-400 hover:text-starlight-200 transition-colors disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>{isExporting ? 'Preparing WAV...' : 'Save as WAV'}</span>
+            </button>
           </div>
         </div>
 
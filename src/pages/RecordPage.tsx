@@ -1,24 +1,84 @@
 import React, { useState } from 'react';
 import { Navigate, useNavigate } from 'react-router-dom';
-import { Mic, Square, Play, Trash2, Calendar, Lock, Upload, Star, Moon, Loader } from 'lucide-react';
+import { Mic, Square, Play, Trash2, Calendar, Lock, Upload, Star, Moon, Loader, Hourglass, Gift, Users, HeartPulse, GitBranch, Repeat, Anchor } from 'lucide-react';
 import { useWallet } from '../contexts/WalletContext';
 import { useAudio } from '../contexts/AudioContext';
 import { useMemory } from '../contexts/MemoryContext';
 import WaveformVisualizer from '../components/WaveformVisualizer';
 import DatePicker from '../components/DatePicker';
 import EmotionAnalysis from '../components/EmotionAnalysis';
+import ConditionBuilder from '../components/ConditionBuilder';
+import { getLocalTimeZone } from '../utils/timezone';
+import { isValidRecipient } from '../utils/giftCapsule';
+import { UnlockCondition, isValidCondition, pruneCondition } from '../utils/unlockCondition';
+import { MONTHLY_RULE, Recurrence, YEARLY_RULE, parseRule } from '../utils/recurrence';
+import { BACKEND_LOCATIONS, configuredBackendKind } from '../utils/storageBackend';
+import { hasTimeLockApp } from '../utils/timeLockContract';
+
+const storageLocation = BACKEND_LOCATIONS[configuredBackendKind()];
 
 const RecordPage: React.FC = () => {
-  const { isConnected } = useWallet();
+  const { isConnected, canEnterMnemonic } = useWallet();
   const { isRecording, audioBlob, audioUrl, duration, startRecording, stopRecording, clearRecording } = useAudio();
-  const { addMemory, isLoading: isStorageLoading } = useMemory();
+  const { memories, addMemory, isLoading: isStorageLoading } = useMemory();
   const navigate = useNavigate();
   
   const [unlockDate, setUnlockDate] = useState<Date>(new Date(Date.now() + 24 * 60 * 60 * 1000)); // Tomorrow
+  const [unlockTimeZone, setUnlockTimeZone] = useState(getLocalTimeZone());
   const [title, setTitle] = useState('');
   const [message, setMessage] = useState('');
   const [isUploading, setIsUploading] = useState(false);
   const [emotion, setEmotion] = useState<{ tone: string; intensity: number } | null>(null);
+  const [usePuzzle, setUsePuzzle] = useState(false);
+  const [useAnchor, setUseAnchor] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  // Recipients unwrap gifts with their mnemonic, which only test accounts may enter
+  const trimmedRecipient = canEnterMnemonic ? recipient.trim() : '';
+  const isRecipientValid = !trimmedRecipient || isValidRecipient(trimmedRecipient);
+  const [useCheckIn, setUseCheckIn] = useState(false);
+  const [checkInDays, setCheckInDays] = useState(30);
+  const hasCheckIn = useCheckIn && Boolean(trimmedRecipient);
+  const [recurrenceKind, setRecurrenceKind] = useState<'none' | 'yearly' | 'monthly' | 'custom'>('none');
+  const [customRule, setCustomRule] = useState('FREQ=WEEKLY;BYDAY=SU');
+  const [windowDays, setWindowDays] = useState(7);
+  const recurrenceRule = hasCheckIn || recurrenceKind === 'none'
+    ? null
+    : recurrenceKind === 'yearly' ? YEARLY_RULE : recurrenceKind === 'monthly' ? MONTHLY_RULE : customRule.trim();
+  let recurrenceError: string | null = null;
+  if (recurrenceRule) {
+    try {
+      parseRule(recurrenceRule);
+    } catch (error) {
+      recurrenceError = error instanceof Error ? error.message : 'This rule is not supported';
+    }
+  }
+  const recurrence: Recurrence | undefined = recurrenceRule && !recurrenceError
+    ? { rule: recurrenceRule, windowSeconds: windowDays * 24 * 60 * 60 }
+    : undefined;
+  const isPuzzleBlocked = Boolean(trimmedRecipient) || Boolean(recurrenceRule);
+  const [conditionGroup, setConditionGroup] = useState<Extract<UnlockCondition, { type: 'all' | 'any' }>>(
+    { type: 'all', conditions: [] }
+  );
+  const unlockCondition = pruneCondition(conditionGroup);
+  const isConditionValid = !unlockCondition || isValidCondition(unlockCondition);
+  const [trusteeList, setTrusteeList] = useState('');
+  const [trusteeThreshold, setTrusteeThreshold] = useState(2);
+  const trusteeAddresses = trusteeList.split(/\s+/).filter(Boolean);
+  // Trustees approve with their mnemonic too, so only test accounts could ever open it
+  const canUseTrustees = canEnterMnemonic && !trimmedRecipient;
+  const hasTrustees = trusteeAddresses.length > 0 && canUseTrustees;
+  const trusteeError = !hasTrustees
+    ? null
+    : trusteeAddresses.some(address => !isValidRecipient(address))
+      ? 'Every trustee must be a valid Algorand address.'
+      : new Set(trusteeAddresses).size !== trusteeAddresses.length
+        ? 'Each trustee can only be named once.'
+        : trusteeThreshold < 1 || trusteeThreshold > trusteeAddresses.length
+          ? `The quorum must be between 1 and ${trusteeAddresses.length}.`
+          : null;
+  const hasPuzzle = usePuzzle && !isPuzzleBlocked && !hasTrustees;
+  // The application only guards memories whose key it releases, which puzzles, gifts and trustees do not use
+  const isLockedOnChain = hasTimeLockApp() && !hasPuzzle && !trimmedRecipient && !hasTrustees;
 
   if (!isConnected) {
     return <Navigate to="/" replace />;
@@ -29,14 +89,23 @@ const RecordPage: React.FC = () => {
     
     setIsUploading(true);
     try {
-      // Store using AlgoNode IPFS + Algorand smart contracts
+      // Encrypt and store through the configured backend
       const memoryId = await addMemory({
         title: title.trim(),
         note: message.trim() || undefined,
         unlockDate,
+        unlockTimeZone,
         emotion,
         duration,
         audioBlob
+      }, {
+        timeLockPuzzle: hasPuzzle,
+        recipient: trimmedRecipient || undefined,
+        trustees: hasTrustees ? { addresses: trusteeAddresses, threshold: trusteeThreshold } : undefined,
+        checkInInterval: hasCheckIn ? checkInDays * 24 * 60 * 60 : undefined,
+        unlockCondition,
+        recurrence,
+        anchorInNote: useAnchor
       });
 
       // Reset form
@@ -44,11 +113,24 @@ const RecordPage: React.FC = () => {
       setMessage('');
       clearRecording();
       setEmotion(null);
+      setUsePuzzle(false);
+      setUseAnchor(false);
+      setRecipient('');
+      setTrusteeList('');
+      setUseCheckIn(false);
+      setConditionGroup({ type: 'all', conditions: [] });
+      setRecurrenceKind('none');
       
       // Navigate to dashboard with success message
       navigate('/dashboard', { 
         state: { 
-          message: 'Your whisper has been locked in time\'s embrace and stored on IPFS!',
+          message: hasCheckIn
+            ? 'Your whisper will wait quietly for as long as you keep checking in.'
+            : trimmedRecipient
+            ? 'Your whisper has been sealed for its recipient and set adrift in time.'
+            : hasTrustees
+            ? 'Your whisper has been placed in the care of its trustees.'
+            : `Your whisper has been locked in time's embrace and stored ${storageLocation}!`,
           newMemoryId: memoryId
         }
       });
@@ -105,7 +187,7 @@ const RecordPage: React.FC = () => {
         </h1>
         <p className="text-xl text-starlight-400 max-w-3xl mx-auto font-serif italic poetry-spacing">
           Record a message for your future self or beloved souls. 
-          Your voice will be encrypted and stored on IPFS, locked by Algorand smart contracts until the perfect moment.
+          Your voice will be encrypted and stored {storageLocation}, {hasTimeLockApp() ? 'locked by an Algorand smart contract' : 'locked against trusted time'} until the perfect moment.
         </p>
       </div>
 
@@ -219,11 +301,227 @@ const RecordPage: React.FC = () => {
             <div>
               <label className="block text-lg font-serif text-starlight-200 mb-3 flex items-center">
                 <Calendar className="h-5 w-5 mr-2" />
-                Unlock Date
+                Unlock Date &amp; Time
+              </label>
+              {hasCheckIn ? (
+                <p className="px-6 py-4 rounded-2xl bg-white/[0.02] border border-white/[0.06] text-starlight-300 font-serif">
+                  Opens {checkInDays} {checkInDays === 1 ? 'day' : 'days'} after your last check-in
+                </p>
+              ) : (
+                <DatePicker
+                  value={unlockDate}
+                  timeZone={unlockTimeZone}
+                  onChange={(date, timeZone) => {
+                    setUnlockDate(date);
+                    setUnlockTimeZone(timeZone);
+                  }}
+                />
+              )}
+            </div>
+
+            {/* Recurrence */}
+            {!hasCheckIn && (
+              <div>
+                <label className="block text-lg font-serif text-starlight-200 mb-3 flex items-center">
+                  <Repeat className="h-5 w-5 mr-2" />
+                  Return Again
+                </label>
+                <div className="flex flex-wrap gap-3">
+                  {[
+                    { kind: 'none', label: 'Once' },
+                    { kind: 'yearly', label: 'Every Year' },
+                    { kind: 'monthly', label: 'Every Month' },
+                    { kind: 'custom', label: 'Custom Rule' }
+                  ].map(option => (
+                    <button
+                      key={option.kind}
+                      type="button"
+                      onClick={() => setRecurrenceKind(option.kind as typeof recurrenceKind)}
+                      className={`px-4 py-2 text-sm font-serif rounded-xl transition-all duration-300 border ${
+                        recurrenceKind === option.kind
+                          ? 'bg-white/[0.12] text-starlight-100 border-cosmos-500/40'
+                          : 'bg-white/[0.06] text-starlight-300 border-white/[0.08] hover:bg-white/[0.12]'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {recurrenceKind === 'custom' && (
+                  <input
+                    type="text"
+                    value={customRule}
+                    onChange={(e) => setCustomRule(e.target.value)}
+                    placeholder="RRULE, e.g. FREQ=MONTHLY;BYMONTHDAY=-1"
+                    className="w-full mt-4 px-6 py-4 rounded-2xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 placeholder-starlight-500 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-mono text-sm"
+                  />
+                )}
+                {recurrenceRule && (
+                  <div className="flex items-center space-x-3 mt-4 text-starlight-300 font-serif">
+                    <span>Stay open for</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={windowDays}
+                      onChange={(e) => setWindowDays(Math.max(1, Number(e.target.value)))}
+                      className="w-20 px-3 py-2 rounded-xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 text-center"
+                    />
+                    <span>{windowDays === 1 ? 'day' : 'days'} each time</span>
+                  </div>
+                )}
+                <p className={recurrenceError ? 'text-red-300 text-sm font-serif mt-2' : 'text-whisper mt-2'}>
+                  {recurrenceError ?? 'A birthday or anniversary voice that seals itself again and returns with the next one.'}
+                </p>
+              </div>
+            )}
+
+            {/* Unlock Conditions */}
+            <div>
+              <label className="block text-lg font-serif text-starlight-200 mb-3 flex items-center">
+                <GitBranch className="h-5 w-5 mr-2" />
+                Further Conditions
               </label>
-              <DatePicker value={unlockDate} onChange={setUnlockDate} />
+              <ConditionBuilder value={conditionGroup} onChange={setConditionGroup} memories={memories} />
+              <p className={isConditionValid ? 'text-whisper mt-2' : 'text-red-300 text-sm font-serif mt-2'}>
+                {isConditionValid
+                  ? 'Optional. Once its date arrives, the memory still waits for these.'
+                  : 'Every condition needs a memory to refer to.'}
+              </p>
             </div>
 
+            {/* Recipient */}
+            <div className={canEnterMnemonic ? '' : 'opacity-50'}>
+              <label className="block text-lg font-serif text-starlight-200 mb-3 flex items-center">
+                <Gift className="h-5 w-5 mr-2" />
+                Send to Someone
+              </label>
+              <input
+                type="text"
+                value={recipient}
+                disabled={!canEnterMnemonic}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Recipient's Algorand address"
+                className="w-full px-6 py-4 rounded-2xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 placeholder-starlight-500 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-mono text-sm"
+              />
+              <p className={isRecipientValid ? 'text-whisper mt-2' : 'text-red-300 text-sm font-serif mt-2'}>
+                {!canEnterMnemonic
+                  ? 'Gifts are opened with the recipient\'s mnemonic, which real wallets never reveal, so they can only be sent on LocalNet or from a development wallet.'
+                  : isRecipientValid
+                    ? 'Optional. Only this account will be able to open the gift, not even you.'
+                    : 'This is not a valid Algorand address.'}
+              </p>
+            </div>
+
+            {/* Check-in Switch */}
+            {trimmedRecipient && isRecipientValid && (
+              <div className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  id="check-in-switch"
+                  checked={useCheckIn}
+                  onChange={(e) => setUseCheckIn(e.target.checked)}
+                  className="mt-1.5 h-4 w-4 rounded accent-cosmos-500"
+                />
+                <div>
+                  <label htmlFor="check-in-switch" className="text-lg font-serif text-starlight-200 flex items-center cursor-pointer">
+                    <HeartPulse className="h-5 w-5 mr-2" />
+                    Release only if I stop checking in
+                  </label>
+                  {useCheckIn && (
+                    <div className="flex items-center space-x-3 mt-3 text-starlight-300 font-serif">
+                      <span>Open after</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={checkInDays}
+                        onChange={(e) => setCheckInDays(Math.max(1, Number(e.target.value)))}
+                        className="w-20 px-3 py-2 rounded-xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 text-center"
+                      />
+                      <span>days of silence</span>
+                    </div>
+                  )}
+                  <p className="text-whisper mt-1">
+                    Every time you connect your wallet or check in, the countdown starts over.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {/* Trustees */}
+            <div className={canUseTrustees ? '' : 'opacity-50'}>
+              <label className="block text-lg font-serif text-starlight-200 mb-3 flex items-center">
+                <Users className="h-5 w-5 mr-2" />
+                Entrust to Guardians
+              </label>
+              <textarea
+                value={trusteeList}
+                disabled={!canUseTrustees}
+                onChange={(e) => setTrusteeList(e.target.value)}
+                placeholder="Trustee Algorand addresses, one per line"
+                rows={3}
+                className="w-full px-6 py-4 rounded-2xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 placeholder-starlight-500 focus:ring-2 focus:ring-cosmos-500/50 focus:border-transparent transition-all font-mono text-sm resize-none"
+              />
+              {trusteeAddresses.length > 0 && (
+                <div className="flex items-center space-x-3 mt-3 text-starlight-300 font-serif">
+                  <span>Opens when</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={trusteeAddresses.length}
+                    value={trusteeThreshold}
+                    disabled={!canUseTrustees}
+                    onChange={(e) => setTrusteeThreshold(Number(e.target.value))}
+                    className="w-20 px-3 py-2 rounded-xl bg-white/[0.04] border border-white/[0.12] text-starlight-100 text-center"
+                  />
+                  <span>of {trusteeAddresses.length} trustees approve</span>
+                </div>
+              )}
+              <p className={trusteeError ? 'text-red-300 text-sm font-serif mt-2' : 'text-whisper mt-2'}>
+                {!canEnterMnemonic
+                  ? 'Trustees approve with their mnemonic, which real wallets never reveal, so guardians can only be named on LocalNet or from a development wallet.'
+                  : trusteeError ?? 'Optional. The key is split among them, and no fewer than the quorum can open it, not even you.'}
+              </p>
+            </div>
+
+            {/* Time-lock Puzzle */}
+            <label className={`flex items-start space-x-3 ${isPuzzleBlocked || hasTrustees ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                disabled={isPuzzleBlocked || hasTrustees}
+                checked={usePuzzle && !isPuzzleBlocked && !hasTrustees}
+                onChange={(e) => setUsePuzzle(e.target.checked)}
+                className="mt-1.5 h-4 w-4 rounded accent-cosmos-500"
+              />
+              <div>
+                <span className="text-lg font-serif text-starlight-200 flex items-center">
+                  <Hourglass className="h-5 w-5 mr-2" />
+                  Seal with a time-lock puzzle
+                </span>
+                <p className="text-whisper mt-1">
+                  The key is woven into a puzzle that takes a device like this one until the unlock date to solve, whatever its clock says.
+                </p>
+              </div>
+            </label>
+
+            {/* Transaction Note Anchor */}
+            <label className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useAnchor}
+                onChange={(e) => setUseAnchor(e.target.checked)}
+                className="mt-1.5 h-4 w-4 rounded accent-cosmos-500"
+              />
+              <div>
+                <span className="text-lg font-serif text-starlight-200 flex items-center">
+                  <Anchor className="h-5 w-5 mr-2" />
+                  Anchor in an Algorand transaction
+                </span>
+                <p className="text-whisper mt-1">
+                  Your wallet sends a 0-ALGO payment to yourself whose note holds this memory's fingerprint and unlock time, a public witness of when it was sealed. Costs the network fee.
+                </p>
+              </div>
+            </label>
+
             {/* Emotion Display */}
             {emotion && (
               <div className="glass-soft p-6 border border-cosmos-500/30">
@@ -249,13 +547,13 @@ const RecordPage: React.FC = () => {
             {/* Upload Button */}
             <button
               onClick={handleUpload}
-              disabled={!audioBlob || !title.trim() || !emotion || isUploading || isStorageLoading}
+              disabled={!audioBlob || !title.trim() || !emotion || !isRecipientValid || !isConditionValid || Boolean(recurrenceError) || Boolean(trusteeError) || isUploading || isStorageLoading}
               className="w-full button-primary px-8 py-6 font-serif font-medium text-lg transition-all duration-500 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none group"
             >
               {isUploading || isStorageLoading ? (
                 <div className="flex items-center justify-center space-x-3">
                   <Loader className="animate-spin h-6 w-6" />
-                  <span>Storing on IPFS & Algorand...</span>
+                  <span>{isLockedOnChain ? 'Storing and locking on Algorand...' : 'Storing...'}</span>
                 </div>
               ) : (
                 <div className="flex items-center justify-center space-x-3">
@@ -266,7 +564,7 @@ const RecordPage: React.FC = () => {
               )}
               {!isUploading && !isStorageLoading && (
                 <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                  <span className="text-whisper text-sm">Store on IPFS via AlgoNode</span>
+                  <span className="text-whisper text-sm">Store {storageLocation}</span>
                 </div>
               )}
             </button>
@@ -292,9 +590,9 @@ const RecordPage: React.FC = () => {
               <h4 className="text-sm font-serif text-starlight-200 mb-2">Storage Details</h4>
               <div className="text-xs text-starlight-400 space-y-1">
                 <p>• Audio encrypted with AES-256-GCM</p>
-                <p>• Stored on IPFS via AlgoNode</p>
-                <p>• Time-locked by Algorand smart contract</p>
-                <p>• Decentralized and permanent</p>
+                <p>• Stored {storageLocation}</p>
+                <p>{isLockedOnChain ? '• Time-locked by Algorand smart contract' : '• Opens by trusted time, never this device\'s clock'}</p>
+                {configuredBackendKind() === 'ipfs' && <p>• Decentralized and content-addressed</p>}
               </div>
             </div>
           </div>
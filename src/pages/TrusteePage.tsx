@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Navigate, Link } from 'react-router-dom';
+import { Users, Lock, Star, Play, Key, Calendar, Clock, Check, ShieldAlert, Moon } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useWallet } from '../contexts/WalletContext';
+import { useMemory, VoiceMemory } from '../contexts/MemoryContext';
+import { formatInTimeZone } from '../utils/timezone';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const TrusteePage: React.FC = () => {
+  const { isConnected, activeAccount, canEnterMnemonic } = useWallet();
+  const { trusteeMemories, approveAsTrustee } = useMemory();
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+
+  if (!isConnected) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleApprove = async (memory: VoiceMemory) => {
+    if (!canEnterMnemonic) return;
+    const confirmed = confirm(
+      'Approving releases your share of this memory\'s key. Once enough trustees approve, the memory opens after its unlock date. Continue?'
+    );
+    if (!confirmed) return;
+
+    // The share is wrapped to this account's key, which wallet apps do not expose, so
+    // only test accounts are asked for their mnemonic
+    const mnemonic = prompt(
+      'Enter the 25-word mnemonic of your trustee account. It is only used on this device to unwrap your share and is never stored.'
+    );
+    if (!mnemonic) return;
+
+    setApprovingId(memory.id);
+    try {
+      await approveAsTrustee(memory.id, mnemonic);
+    } catch (error) {
+      console.error('Trustee approval failed:', error);
+      alert(`Could not approve: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      {/* Header */}
+      <div className="text-center mb-20">
+        <h1 className="text-5xl md:text-6xl font-display font-light text-starlight-100 mb-6 text-glow-soft">
+          Held in Your Trust
+        </h1>
+        <p className="text-xl text-starlight-400 max-w-3xl mx-auto font-serif italic poetry-spacing">
+          Voices others have placed in your keeping. Together with the other trustees, you decide when they speak.
+        </p>
+      </div>
+
+      {trusteeMemories.length === 0 ? (
+        <div className="text-center py-20">
+          <div className="glass-soft p-16 max-w-2xl mx-auto">
+            <Moon className="h-20 w-20 text-starlight-400 mx-auto mb-8 animate-pulse-gentle" />
+            <h3 className="text-3xl font-display font-light text-starlight-100 mb-6">
+              Nothing in Your Care
+            </h3>
+            <p className="text-starlight-300 font-serif poetry-spacing">
+              When someone names you as a trustee of their memory, it will appear here.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {trusteeMemories.map(memory => {
+            const trustees = memory.trustees!;
+            const hasApproved = activeAccount !== null && trustees.approvedBy.includes(activeAccount);
+
+            return (
+              <div
+                key={memory.id}
+                className="glass-soft p-8 hover:shadow-ethereal transition-all duration-500 hover:scale-[1.02] group"
+              >
+                {/* Status Badge */}
+                <div className="flex items-center justify-between mb-6">
+                  <div className={`inline-flex items-center space-x-2 px-4 py-2 rounded-full text-xs font-serif ${
+                    memory.isLocked
+                      ? 'bg-cosmos-500/20 text-cosmos-300 border border-cosmos-500/30'
+                      : 'bg-aurora-500/20 text-aurora-300 border border-aurora-500/30'
+                  }`}>
+                    {memory.isLocked ? <Lock className="h-3 w-3" /> : <Star className="h-3 w-3" />}
+                    <span>{memory.isLocked ? 'Awaiting quorum' : 'Opened'}</span>
+                  </div>
+                  <span className="text-xs text-starlight-400 font-serif">
+                    {trustees.approvedBy.length} of {trustees.threshold} approved
+                  </span>
+                </div>
+
+                {/* Integrity Warning */}
+                {memory.integrity === 'tampered' && (
+                  <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/30 text-red-300 text-xs font-serif">
+                    <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                    <span>Altered after it was sealed. Do not approve.</span>
+                  </div>
+                )}
+                {memory.integrity === 'unsigned' && (
+                  <div className="flex items-center space-x-2 mb-6 px-4 py-3 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs font-serif">
+                    <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+                    <span>Not signed by the owner's wallet. Confirm its lock with them before approving.</span>
+                  </div>
+                )}
+
+                <h3 className="text-xl font-display font-medium text-starlight-100 mb-4 line-clamp-2">
+                  {memory.title}
+                </h3>
+
+                {/* Approval Progress */}
+                <div className="w-full h-2 bg-white/[0.1] rounded-full overflow-hidden mb-6">
+                  <div
+                    className="h-full bg-gradient-to-r from-cosmos-500 to-aurora-500 transition-all duration-500"
+                    style={{ width: `${Math.min(trustees.approvedBy.length / trustees.threshold, 1) * 100}%` }}
+                  />
+                </div>
+
+                <div className="space-y-3 mb-8">
+                  {memory.userAddress && (
+                    <div className="flex items-center text-xs text-starlight-400">
+                      <Users className="h-3 w-3 mr-2" />
+                      <span className="font-serif">
+                        Entrusted by <span className="font-mono" title={memory.userAddress}>{shortenAddress(memory.userAddress)}</span>
+                        {' '}to {trustees.addresses.length} trustees
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex items-center text-xs text-starlight-400">
+                    <Calendar className="h-3 w-3 mr-2" />
+                    <span className="font-serif">Sealed {formatDistanceToNow(memory.createdDate)} ago</span>
+                  </div>
+                  <div className="flex items-center text-xs text-starlight-400">
+                    <Clock className="h-3 w-3 mr-2" />
+                    <span className="font-serif">
+                      Not before {formatInTimeZone(memory.unlockDate, memory.unlockTimeZone)}
+                    </span>
+                  </div>
+                </div>
+
+                {!memory.isLocked ? (
+                  <Link
+                    to={`/playback/${memory.id}`}
+                    className="w-full button-primary flex items-center justify-center space-x-3 py-4 font-serif font-medium transition-all duration-500"
+                  >
+                    <Play className="h-4 w-4" />
+                    <span>Listen</span>
+                  </Link>
+                ) : hasApproved ? (
+                  <div className="w-full flex items-center justify-center space-x-2 py-4 text-sm text-aurora-300 bg-white/[0.02] rounded-xl border border-white/[0.06] font-serif">
+                    <Check className="h-4 w-4" />
+                    <span>You have approved</span>
+                  </div>
+                ) : !canEnterMnemonic ? (
+                  <div className="w-full py-4 px-4 text-center text-sm text-starlight-400 bg-white/[0.02] rounded-xl border border-white/[0.06] font-serif">
+                    Only a test account can approve
+                    <p className="text-whisper text-xs mt-1">Approving needs the account's mnemonic, which real wallets never reveal. Connect on LocalNet or with a development wallet.</p>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => handleApprove(memory)}
+                    disabled={approvingId === memory.id || memory.integrity === 'tampered'}
+                    className="w-full button-primary flex items-center justify-center space-x-3 py-4 font-serif font-medium transition-all duration-500 disabled:opacity-50"
+                  >
+                    <Key className="h-4 w-4" />
+                    <span>{approvingId === memory.id ? 'Releasing share...' : 'Approve Opening'}</span>
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrusteePage;
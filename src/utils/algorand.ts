@@ -0,0 +1,35 @@
+import algosdk from 'algosdk';
+import { NetworkConfig, getNetwork } from './network';
+
+/**
+ * Build an algod client for the configured network
+ */
+export function createAlgodClient(network: NetworkConfig = getNetwork()): algosdk.Algodv2 {
+  const { token, server, port } = network.algod;
+  return new algosdk.Algodv2(token, server, port);
+}
+
+/**
+ * Build an indexer client for the configured network
+ */
+export function createIndexerClient(network: NetworkConfig = getNetwork()): algosdk.Indexer {
+  const { token, server, port } = network.indexer;
+  return new algosdk.Indexer(token, server, port);
+}
+
+/**
+ * The most recent round the node has seen
+ */
+export async function getLatestRound(algod: algosdk.Algodv2): Promise<number> {
+  const status = await algod.status().do();
+  return Number(status.lastRound);
+}
+
+/**
+ * Timestamp, in seconds, of the most recent block the node has seen
+ */
+export async function getLatestBlockTimestamp(algod: algosdk.Algodv2): Promise<number> {
+  const status = await algod.status().do();
+  const { block } = await algod.block(status.lastRound).do();
+  return Number(block.header.timestamp);
+}
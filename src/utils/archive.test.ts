@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildArchive, readArchive } from './archive';
+import { deriveMemoryKey, encryptBlob, encryptJson, randomBytes } from './crypto';
+import { CURRENT_SCHEMA_VERSION, StoredMemoryRecord } from './schema';
+
+async function createRecord(id: string, audioLength: number): Promise<{ record: StoredMemoryRecord; material: Uint8Array }> {
+  const material = randomBytes(32);
+  const key = await deriveMemoryKey(material, id);
+  return {
+    material,
+    record: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      id,
+      userAddress: 'OWNER',
+      unlockDate: '2030-01-01T00:00:00.000Z',
+      createdDate: '2024-01-01T00:00:00.000Z',
+      duration: 3,
+      audio: await encryptBlob(key, new Blob([randomBytes(audioLength)]), `${id}:audio`),
+      metadata: await encryptJson(key, { title: id }, `${id}:metadata`)
+    }
+  };
+}
+
+describe('archive', () => {
+  it('round-trips records, their audio and their keys', async () => {
+    const first = await createRecord('memory_1', 100);
+    const second = await createRecord('memory_2', 2500);
+
+    const archive = await buildArchive(
+      'OWNER',
+      [first.record, second.record],
+      { memory_1: first.material, memory_2: second.material },
+      'correct horse'
+    );
+    const { manifest, records, keys } = await readArchive(archive, 'correct horse');
+
+    expect(manifest.userAddress).toBe('OWNER');
+    expect(records.map(record => record.id)).toEqual(['memory_1', 'memory_2']);
+    for (const [index, original] of [first, second].entries()) {
+      expect(new Uint8Array(await records[index].audio.ciphertext.arrayBuffer()))
+        .toEqual(new Uint8Array(await original.record.audio.ciphertext.arrayBuffer()));
+      expect(keys[original.record.id]).toEqual(original.material);
+    }
+  });
+
+  it('refuses a wrong passphrase and files that are not archives', async () => {
+    const { record, material } = await createRecord('memory_1', 10);
+    const archive = await buildArchive('OWNER', [record], { memory_1: material }, 'correct horse');
+
+    await expect(readArchive(archive, 'battery staple')).rejects.toThrow('Wrong passphrase or damaged archive');
+    await expect(readArchive(new Blob(['not an archive']), 'correct horse')).rejects.toThrow('Not a ChronoLock archive');
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  EncryptedPayload,
+  base64ToBytes,
+  bytesToBase64,
+  decryptJson,
+  derivePassphraseKey,
+  encryptJson,
+  randomBytes
+} from './crypto';
+import { StoredMemoryRecord, validateRecord } from './schema';
+
+/**
+ * Archive file layout:
+ *   magic "CLA1" | manifest length (uint32, big endian) | manifest JSON | audio payloads
+ *
+ * Audio stays encrypted exactly as stored. The memory keys travel in the manifest,
+ * wrapped with a key derived from a passphrase chosen at export time. Gift files carry
+ * no keys at all: their one memory holds its key wrapped for the recipient.
+ */
+const ARCHIVE_MAGIC = 'CLA1';
+const HEADER_LENGTH = 8;
+const PBKDF2_ITERATIONS = 250000;
+
+export const ARCHIVE_FILE_EXTENSION = '.chronolock';
+
+type ArchivedMemory = Omit<StoredMemoryRecord, 'audio'> & {
+  audio: { iv: string; offset: number; length: number };
+};
+
+export interface ArchiveManifest {
+  format: 'chronolock-archive';
+  version: 1;
+  exportedAt: string;
+  userAddress: string;
+  // Absent from gift files
+  keys?: {
+    salt: string;
+    iterations: number;
+    wrapped: EncryptedPayload;
+  };
+  memories: ArchivedMemory[];
+}
+
+export interface ArchiveContents {
+  manifest: ArchiveManifest;
+  records: StoredMemoryRecord[];
+  keys: Record<string, Uint8Array>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Package records and their key material into a single archive Blob
+ */
+export async function buildArchive(
+  userAddress: string,
+  records: StoredMemoryRecord[],
+  keys: Record<string, Uint8Array>,
+  passphrase: string
+): Promise<Blob> {
+  const salt = randomBytes(16);
+  const wrappingKey = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const encodedKeys = Object.fromEntries(
+    Object.entries(keys).map(([memoryId, material]) => [memoryId, bytesToBase64(material)])
+  );
+
+  return packArchive(userAddress, records, {
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    wrapped: await encryptJson(wrappingKey, encodedKeys, `archive:${userAddress}`)
+  });
+}
+
+/**
+ * Package a single gift for its recipient. Without any keys it needs no passphrase,
+ * and reveals nothing of the sender's other memories.
+ */
+export async function buildGiftArchive(record: StoredMemoryRecord): Promise<Blob> {
+  if (!record.recipient) {
+    throw new Error(`Memory ${record.id} is not a gift`);
+  }
+  return packArchive(record.userAddress, [record]);
+}
+
+function packArchive(userAddress: string, records: StoredMemoryRecord[], keys?: ArchiveManifest['keys']): Blob {
+  let offset = 0;
+  const memories: ArchivedMemory[] = records.map(({ audio, ...record }) => {
+    const entry = { ...record, audio: { iv: audio.iv, offset, length: audio.ciphertext.size } };
+    offset += audio.ciphertext.size;
+    return entry;
+  });
+
+  const manifest: ArchiveManifest = {
+    format: 'chronolock-archive',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    userAddress,
+    keys,
+    memories
+  };
+
+  const manifestBytes = textEncoder.encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(textEncoder.encode(ARCHIVE_MAGIC));
+  new DataView(header.buffer).setUint32(4, manifestBytes.length);
+
+  return new Blob(
+    [header, manifestBytes, ...records.map(record => record.audio.ciphertext)],
+    { type: 'application/octet-stream' }
+  );
+}
+
+function validateManifest(manifest: unknown, payloadSize: number): string | null {
+  const candidate = manifest as Partial<ArchiveManifest>;
+  if (candidate?.format !== 'chronolock-archive') return 'Not a ChronoLock archive';
+  if (candidate.version !== 1) return `Unsupported archive version ${candidate.version}`;
+  if (typeof candidate.userAddress !== 'string') return 'Archive has no owner';
+  if (candidate.keys !== undefined && (!candidate.keys?.wrapped || typeof candidate.keys.salt !== 'string')) {
+    return 'Archive keys are unreadable';
+  }
+  if (!Array.isArray(candidate.memories)) return 'Archive has no memories';
+
+  for (const memory of candidate.memories) {
+    const { offset, length } = memory?.audio ?? {};
+    if (typeof offset !== 'number' || typeof length !== 'number' || offset < 0 || offset + length > payloadSize) {
+      return `Audio of memory ${memory?.id} lies outside the archive`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and validate an archive, unwrapping its keys with the export passphrase.
+ * Gift files have no keys and need none.
+ */
+export async function readArchive(file: Blob, passphrase?: string): Promise<ArchiveContents> {
+  const header = new Uint8Array(await file.slice(0, HEADER_LENGTH).arrayBuffer());
+  if (header.length < HEADER_LENGTH || textDecoder.decode(header.subarray(0, 4)) !== ARCHIVE_MAGIC) {
+    throw new Error('Not a ChronoLock archive');
+  }
+
+  const manifestLength = new DataView(header.buffer).getUint32(4);
+  const payloadStart = HEADER_LENGTH + manifestLength;
+  if (payloadStart > file.size) {
+    throw new Error('Archive is truncated');
+  }
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(await file.slice(HEADER_LENGTH, payloadStart).text());
+  } catch {
+    throw new Error('Archive manifest is unreadable');
+  }
+  const problem = validateManifest(manifest, file.size - payloadStart);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  let encodedKeys: Record<string, string> = {};
+  if (manifest.keys) {
+    if (passphrase === undefined) {
+      throw new Error('This archive needs the passphrase it was exported with');
+    }
+    try {
+      const wrappingKey = await derivePassphraseKey(
+        passphrase,
+        base64ToBytes(manifest.keys.salt),
+        manifest.keys.iterations
+      );
+      encodedKeys = await decryptJson(wrappingKey, manifest.keys.wrapped, `archive:${manifest.userAddress}`);
+    } catch {
+      throw new Error('Wrong passphrase or damaged archive');
+    }
+  }
+
+  const records = manifest.memories.map(({ audio, ...memory }): StoredMemoryRecord => ({
+    ...memory,
+    audio: {
+      iv: audio.iv,
+      ciphertext: file.slice(payloadStart + audio.offset, payloadStart + audio.offset + audio.length, 'application/octet-stream')
+    }
+  }));
+
+  for (const record of records) {
+    const recordProblem = validateRecord(record);
+    if (recordProblem) {
+      throw new Error(`Memory ${record.id} is invalid: ${recordProblem}`);
+    }
+    if (!encodedKeys[record.id] && !record.puzzle && !record.recipient && !record.trustees) {
+      throw new Error(`Memory ${record.id} has no key in the archive`);
+    }
+  }
+
+  return {
+    manifest,
+    records,
+    keys: Object.fromEntries(
+      Object.entries(encodedKeys).map(([memoryId, encoded]) => [memoryId, base64ToBytes(encoded)])
+    )
+  };
+}
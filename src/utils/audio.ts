@@ -0,0 +1,83 @@
+// Preferred first; MediaRecorder support differs between browsers
+const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+  'audio/ogg;codecs=opus'
+];
+
+/**
+ * Pick the first container the browser can record, or undefined to let it choose
+ */
+export function pickRecordingMimeType(): string | undefined {
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Guess the container from its leading bytes, for memories saved before the
+ * MIME type was recorded (those were all labelled audio/wav)
+ */
+export function sniffAudioMimeType(header: Uint8Array): string {
+  const ascii = (start: number, end: number) => String.fromCharCode(...header.subarray(start, end));
+
+  if (header[0] === 0x1a && header[1] === 0x45 && header[2] === 0xdf && header[3] === 0xa3) return 'audio/webm';
+  if (ascii(4, 8) === 'ftyp') return 'audio/mp4';
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  return 'application/octet-stream';
+}
+
+/**
+ * Decode compressed audio without a live AudioContext, which browsers only allow after a gesture
+ */
+export async function decodeAudio(blob: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, 44100);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+/**
+ * 16-bit PCM WAV from a decoded buffer, channels interleaved
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = 2;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const samples of channels) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+export async function transcodeToWav(blob: Blob): Promise<Blob> {
+  return encodeWav(await decodeAudio(blob));
+}
@@ -0,0 +1,79 @@
+import algosdk from 'algosdk';
+import { base64ToBytes, bytesToBase64, sha256 } from './crypto';
+import { BytesSigner, canonicalJson, digestAudio } from './integrity';
+import type { StoredMemoryRecord } from './schema';
+
+/**
+ * - verified: the recorded author's wallet signed this memory's manifest
+ * - invalid: a signature is present but does not match the manifest or the author
+ * - unsigned: the author's wallet could not sign, or the memory predates authorship proofs
+ */
+export type AuthorshipStatus = 'verified' | 'invalid' | 'unsigned';
+
+/**
+ * Signature by the creator's wallet over what they recorded. Unlike the integrity
+ * seal it leaves out lock settings, so it survives check-ins and reschedules and
+ * still names the author after a memory is gifted or exported.
+ */
+export interface AuthorshipProof {
+  // SHA-256 of the audio ciphertext the author signed for
+  audioHash: string;
+  // The integrity seal was signed as well, so a seal without a signature has been stripped
+  sealSigned?: boolean;
+  signature: string;
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * SHA-256 of the manifest an author signs: who recorded which ciphertext, on which network, when
+ */
+export async function computeAuthorshipManifest(
+  record: StoredMemoryRecord,
+  audioHash: string,
+  sealSigned?: boolean
+): Promise<Uint8Array> {
+  const canonical = canonicalJson({
+    type: 'chronolock-authorship',
+    id: record.id,
+    author: record.userAddress,
+    network: record.network,
+    createdDate: record.createdDate,
+    duration: record.duration,
+    audio: { iv: record.audio.iv, sha256: audioHash },
+    metadata: record.metadata,
+    sealSigned
+  });
+  return sha256(textEncoder.encode(canonical));
+}
+
+/**
+ * Sign for a record whose integrity seal is then signed with the same wallet
+ */
+export async function signAuthorship(record: StoredMemoryRecord, signBytes: BytesSigner): Promise<AuthorshipProof> {
+  const audioHash = await digestAudio(record);
+  const manifest = await computeAuthorshipManifest(record, audioHash, true);
+  const signature = await signBytes(manifest, `Sign as the author of ChronoLock memory "${record.id}"`);
+  return { audioHash, sealSigned: true, signature: bytesToBase64(signature) };
+}
+
+/**
+ * Check the authorship signature against `userAddress`, with the same "MX" prefix
+ * wallets add. The audio is only read when `checkAudio` is set.
+ */
+export async function verifyAuthorship(
+  record: StoredMemoryRecord,
+  { checkAudio = false }: { checkAudio?: boolean } = {}
+): Promise<AuthorshipStatus> {
+  if (!record.authorship) return 'unsigned';
+
+  const { audioHash, sealSigned, signature } = record.authorship;
+  if (checkAudio && await digestAudio(record) !== audioHash) return 'invalid';
+
+  try {
+    const manifest = await computeAuthorshipManifest(record, audioHash, sealSigned);
+    return algosdk.verifyBytes(manifest, base64ToBytes(signature), record.userAddress) ? 'verified' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
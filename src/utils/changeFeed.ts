@@ -0,0 +1,55 @@
+export type MemoryChangeType = 'added' | 'updated' | 'deleted' | 'imported';
+
+export interface MemoryChange {
+  type: MemoryChangeType;
+  memoryIds: string[];
+}
+
+export type MemoryChangeListener = (change: MemoryChange) => void;
+
+const CHANNEL_NAME = 'chronolock';
+// Fallback for browsers without BroadcastChannel; the value only exists to fire `storage` events
+const STORAGE_EVENT_KEY = 'chronolock_change';
+
+/**
+ * Tells other tabs and windows of this origin that memories changed.
+ * Changes made in the current tab are not echoed back to it.
+ */
+export class MemoryChangeFeed {
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  publish(change: MemoryChange): void {
+    if (this.channel) {
+      this.channel.postMessage(change);
+      return;
+    }
+    try {
+      // A nonce makes every change a new value, so repeated changes still fire
+      localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ ...change, nonce: Math.random() }));
+    } catch (error) {
+      console.error('Failed to publish memory change:', error);
+    }
+  }
+
+  subscribe(listener: MemoryChangeListener): () => void {
+    if (this.channel) {
+      const channel = this.channel;
+      const onMessage = (event: MessageEvent<MemoryChange>) => listener(event.data);
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    }
+
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+      try {
+        const { type, memoryIds } = JSON.parse(event.newValue);
+        listener({ type, memoryIds });
+      } catch {
+        // Ignore values not written by publish
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }
+}
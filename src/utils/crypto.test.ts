@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptBlob,
+  decryptJson,
+  deriveMemoryKey,
+  encryptBlob,
+  encryptJson,
+  randomBytes
+} from './crypto';
+
+describe('crypto', () => {
+  it('round-trips base64, including inputs past the chunk size', () => {
+    const bytes = Uint8Array.from({ length: 0x8000 * 2 + 17 }, (_, i) => i % 256);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+
+  it('decrypts audio and metadata with the key of the same memory', async () => {
+    const material = randomBytes(32);
+    const key = await deriveMemoryKey(material, 'memory_1');
+    const audio = new Blob([randomBytes(1024)], { type: 'audio/webm' });
+
+    const encryptedAudio = await encryptBlob(key, audio, 'memory_1:audio');
+    const decryptedAudio = await decryptBlob(key, encryptedAudio, 'memory_1:audio', 'audio/webm');
+    expect(new Uint8Array(await decryptedAudio.arrayBuffer())).toEqual(new Uint8Array(await audio.arrayBuffer()));
+    expect(decryptedAudio.type).toBe('audio/webm');
+
+    const metadata = await encryptJson(key, { title: 'Hello' }, 'memory_1:metadata');
+    expect(await decryptJson(key, metadata, 'memory_1:metadata')).toEqual({ title: 'Hello' });
+  });
+
+  it('rejects ciphertext moved to another memory or field', async () => {
+    const material = randomBytes(32);
+    const key = await deriveMemoryKey(material, 'memory_1');
+    const metadata = await encryptJson(key, { title: 'Hello' }, 'memory_1:metadata');
+
+    await expect(decryptJson(key, metadata, 'memory_2:metadata')).rejects.toThrow();
+    const otherKey = await deriveMemoryKey(material, 'memory_2');
+    await expect(decryptJson(otherKey, metadata, 'memory_1:metadata')).rejects.toThrow();
+  });
+});
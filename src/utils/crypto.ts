@@ -0,0 +1,155 @@
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+// Binary variant used for audio, so large payloads never pass through base64
+export interface EncryptedBlob {
+  iv: string;
+  ciphertext: Blob;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derive the AES-256-GCM key of a single memory from its key material.
+ * The memory id is used as HKDF info so material can never be reused across memories.
+ */
+export async function deriveMemoryKey(material: Uint8Array, memoryId: string): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(32),
+      info: textEncoder.encode(`chronolock:memory:${memoryId}`)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt bytes with AES-256-GCM. The additional data is authenticated but not encrypted,
+ * which binds a ciphertext to the record it belongs to.
+ */
+export async function encryptBytes(
+  key: CryptoKey,
+  data: Uint8Array,
+  additionalData: string
+): Promise<EncryptedPayload> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: textEncoder.encode(additionalData) },
+    key,
+    data
+  );
+  return {
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext))
+  };
+}
+
+export async function decryptBytes(
+  key: CryptoKey,
+  payload: EncryptedPayload,
+  additionalData: string
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: base64ToBytes(payload.iv),
+      additionalData: textEncoder.encode(additionalData)
+    },
+    key,
+    base64ToBytes(payload.ciphertext)
+  );
+  return new Uint8Array(plaintext);
+}
+
+export async function encryptBlob(key: CryptoKey, blob: Blob, additionalData: string): Promise<EncryptedBlob> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: textEncoder.encode(additionalData) },
+    key,
+    await blob.arrayBuffer()
+  );
+  return {
+    iv: bytesToBase64(iv),
+    ciphertext: new Blob([ciphertext], { type: 'application/octet-stream' })
+  };
+}
+
+export async function decryptBlob(
+  key: CryptoKey,
+  payload: EncryptedBlob,
+  additionalData: string,
+  mimeType: string
+): Promise<Blob> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: base64ToBytes(payload.iv),
+      additionalData: textEncoder.encode(additionalData)
+    },
+    key,
+    await payload.ciphertext.arrayBuffer()
+  );
+  return new Blob([plaintext], { type: mimeType });
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown, additionalData: string): Promise<EncryptedPayload> {
+  return encryptBytes(key, textEncoder.encode(JSON.stringify(value)), additionalData);
+}
+
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload, additionalData: string): Promise<T> {
+  const plaintext = await decryptBytes(key, payload, additionalData);
+  return JSON.parse(textDecoder.decode(plaintext)) as T;
+}
+
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * Derive an AES-256-GCM key from a passphrase, for protecting key material that leaves the device
+ */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
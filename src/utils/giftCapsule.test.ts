@@ -0,0 +1,41 @@
+import algosdk from 'algosdk';
+import { describe, expect, it } from 'vitest';
+import { addressToX25519, openWithMnemonic, sealForRecipient, seedToX25519 } from './giftCapsule';
+import { bytesToBase64, randomBytes } from './crypto';
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g)!, byte => parseInt(byte, 16));
+
+// RFC 8032, section 7.1, test 1
+const SEED = hex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+const PUBLIC_KEY = hex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+// Its X25519 forms, worked out independently with the birational map and Node's X25519
+const X25519_PUBLIC_KEY = hex('d85e07ec22b0ad881537c2f44d662d1a143cf830c57aca4305d85c7a90f6b62e');
+const X25519_SECRET = hex('307c83864f2833cb427a2ef1c00a013cfdff2768d980c0a3a520f006904de94f');
+
+const ADDRESS = algosdk.encodeAddress(PUBLIC_KEY);
+const MNEMONIC = algosdk.mnemonicFromSeed(SEED);
+
+describe('giftCapsule', () => {
+  it('maps an account to the X25519 keys of the test vector', () => {
+    expect(addressToX25519(ADDRESS)).toEqual(X25519_PUBLIC_KEY);
+    expect(seedToX25519(SEED)).toEqual(X25519_SECRET);
+  });
+
+  it('opens a gift with the recipient mnemonic only', async () => {
+    const material = randomBytes(32);
+    const envelope = await sealForRecipient(material, 'memory', ADDRESS);
+
+    expect(await openWithMnemonic(envelope, 'memory', MNEMONIC)).toEqual(material);
+    await expect(openWithMnemonic(envelope, 'other', MNEMONIC)).rejects.toThrow('Gift key could not be unwrapped');
+    const stranger = algosdk.secretKeyToMnemonic(algosdk.generateAccount().sk);
+    await expect(openWithMnemonic(envelope, 'memory', stranger))
+      .rejects.toThrow('This mnemonic belongs to a different account than the recipient');
+  });
+
+  it('rejects a low-order ephemeral key', async () => {
+    const envelope = await sealForRecipient(randomBytes(32), 'memory', ADDRESS);
+    const forged = { ...envelope, ephemeralPublicKey: bytesToBase64(new Uint8Array(32)) };
+
+    await expect(openWithMnemonic(forged, 'memory', MNEMONIC)).rejects.toThrow('Key agreement produced a weak secret');
+  });
+});
@@ -0,0 +1,104 @@
+import algosdk from 'algosdk';
+import { ed25519, x25519 } from '@noble/curves/ed25519.js';
+import {
+  EncryptedPayload,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytes,
+  deriveMemoryKey,
+  encryptBytes,
+  randomBytes
+} from './crypto';
+
+/**
+ * The memory key, wrapped so only the recipient account can unwrap it.
+ *
+ * An Algorand address is an Ed25519 public key. It is mapped to its X25519 (Montgomery)
+ * form, and an ephemeral X25519 key agreement with it yields the wrapping key. The
+ * recipient derives the matching X25519 secret from their account's Ed25519 seed.
+ * The curve arithmetic is @noble/curves', which runs in constant time.
+ */
+export interface RecipientEnvelope {
+  address: string;
+  ephemeralPublicKey: string;
+  wrappedKey: EncryptedPayload;
+}
+
+/**
+ * The X25519 public key of an account: its Ed25519 key mapped by u = (1 + y) / (1 - y)
+ */
+export function addressToX25519(address: string): Uint8Array {
+  return ed25519.utils.toMontgomery(algosdk.decodeAddress(address).publicKey);
+}
+
+/**
+ * The X25519 secret belonging to an Ed25519 seed, as Ed25519 itself expands it
+ */
+export function seedToX25519(seed: Uint8Array): Uint8Array {
+  return ed25519.utils.toMontgomerySecret(seed);
+}
+
+async function deriveEnvelopeKey(secretKey: Uint8Array, publicKey: Uint8Array, memoryId: string): Promise<CryptoKey> {
+  let sharedSecret: Uint8Array;
+  try {
+    // Rejects low-order public keys, which would give a predictable secret
+    sharedSecret = x25519.getSharedSecret(secretKey, publicKey);
+  } catch {
+    throw new Error('Key agreement produced a weak secret');
+  }
+  return deriveMemoryKey(sharedSecret, `${memoryId}:gift`);
+}
+
+export function isValidRecipient(address: string): boolean {
+  return algosdk.isValidAddress(address);
+}
+
+/**
+ * Wrap a memory's key material for the account behind `recipientAddress`
+ */
+export async function sealForRecipient(
+  material: Uint8Array,
+  memoryId: string,
+  recipientAddress: string
+): Promise<RecipientEnvelope> {
+  const ephemeralSecret = randomBytes(32);
+  const ephemeralPublicKey = x25519.getPublicKey(ephemeralSecret);
+  const key = await deriveEnvelopeKey(ephemeralSecret, addressToX25519(recipientAddress), memoryId);
+
+  return {
+    address: recipientAddress,
+    ephemeralPublicKey: bytesToBase64(ephemeralPublicKey),
+    wrappedKey: await encryptBytes(key, material, `${memoryId}:gift:${recipientAddress}`)
+  };
+}
+
+export function accountFromMnemonic(mnemonic: string): algosdk.Account {
+  try {
+    return algosdk.mnemonicToSecretKey(mnemonic.trim().toLowerCase().split(/\s+/).join(' '));
+  } catch {
+    throw new Error('That is not a valid account mnemonic');
+  }
+}
+
+/**
+ * Unwrap a gift's key material with the recipient's 25-word account mnemonic.
+ * Wallet apps never hand out secret keys, so the mnemonic is the only way in.
+ */
+export async function openWithMnemonic(
+  envelope: RecipientEnvelope,
+  memoryId: string,
+  mnemonic: string
+): Promise<Uint8Array> {
+  const account = accountFromMnemonic(mnemonic);
+  if (account.addr.toString() !== envelope.address) {
+    throw new Error('This mnemonic belongs to a different account than the recipient');
+  }
+
+  const secret = seedToX25519(account.sk.slice(0, 32));
+  const key = await deriveEnvelopeKey(secret, base64ToBytes(envelope.ephemeralPublicKey), memoryId);
+  try {
+    return await decryptBytes(key, envelope.wrappedKey, `${memoryId}:gift:${envelope.address}`);
+  } catch {
+    throw new Error('Gift key could not be unwrapped');
+  }
+}
@@ -0,0 +1,117 @@
+import type { StoredMemoryRecord } from './schema';
+import { MemoryQuery, StorageBackend, matchesQuery } from './storageBackend';
+
+const DATABASE_NAME = 'chronolock';
+const DATABASE_VERSION = 2;
+const MEMORY_STORE = 'memories';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB store for memory records. Audio is kept as raw Blobs and records
+ * are indexed by `userAddress`, `unlockDate` and gift recipient.
+ */
+export class IndexedDbBackend implements StorageBackend {
+  private static connection: Promise<IDBDatabase> | null = null;
+
+  async put(record: StoredMemoryRecord): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(MEMORY_STORE, 'readwrite');
+    transaction.objectStore(MEMORY_STORE).put(record);
+    await transactionDone(transaction);
+  }
+
+  async get(memoryId: string): Promise<StoredMemoryRecord | undefined> {
+    const db = await this.open();
+    const store = db.transaction(MEMORY_STORE, 'readonly').objectStore(MEMORY_STORE);
+    return requestToPromise<StoredMemoryRecord | undefined>(store.get(memoryId));
+  }
+
+  async list(query: MemoryQuery = {}): Promise<StoredMemoryRecord[]> {
+    const db = await this.open();
+    const store = db.transaction(MEMORY_STORE, 'readonly').objectStore(MEMORY_STORE);
+    if (query.recipient) {
+      const gifts = await requestToPromise<StoredMemoryRecord[]>(store.index('recipient').getAll(query.recipient));
+      return gifts.filter(record => matchesQuery(record, query));
+    }
+    if (query.userAddress) {
+      return requestToPromise<StoredMemoryRecord[]>(store.index('userAddress').getAll(query.userAddress));
+    }
+    // Trustees sit inside an array of objects, which no index can reach
+    const records = await requestToPromise<StoredMemoryRecord[]>(store.getAll());
+    return records.filter(record => matchesQuery(record, query));
+  }
+
+  async update(memoryId: string, changes: Partial<Omit<StoredMemoryRecord, 'id'>>): Promise<StoredMemoryRecord> {
+    const db = await this.open();
+    const transaction = db.transaction(MEMORY_STORE, 'readwrite');
+    const store = transaction.objectStore(MEMORY_STORE);
+
+    // Read and write in one transaction so concurrent updates cannot interleave
+    const record = await requestToPromise<StoredMemoryRecord | undefined>(store.get(memoryId));
+    if (!record) {
+      transaction.abort();
+      throw new Error('Memory not found');
+    }
+    const updated = { ...record, ...changes };
+    store.put(updated);
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(MEMORY_STORE, 'readwrite');
+    transaction.objectStore(MEMORY_STORE).delete(memoryId);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Records whose unlock date falls within the given range, in unlock order
+   */
+  async getByUnlockDate(from: Date, to: Date): Promise<StoredMemoryRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(MEMORY_STORE, 'readonly').objectStore(MEMORY_STORE).index('unlockDate');
+    const range = IDBKeyRange.bound(from.toISOString(), to.toISOString());
+    return requestToPromise<StoredMemoryRecord[]>(index.getAll(range));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!IndexedDbBackend.connection) {
+      IndexedDbBackend.connection = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = event => {
+          const store = event.oldVersion < 1
+            ? request.result.createObjectStore(MEMORY_STORE, { keyPath: 'id' })
+            : request.transaction!.objectStore(MEMORY_STORE);
+          if (event.oldVersion < 1) {
+            store.createIndex('userAddress', 'userAddress', { unique: false });
+            store.createIndex('unlockDate', 'unlockDate', { unique: false });
+          }
+          if (event.oldVersion < 2) {
+            store.createIndex('recipient', 'recipient.address', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          IndexedDbBackend.connection = null;
+          reject(request.error);
+        };
+      });
+    }
+    return IndexedDbBackend.connection;
+  }
+}
@@ -0,0 +1,129 @@
+import algosdk from 'algosdk';
+import { base64ToBytes, bytesToBase64, sha256 } from './crypto';
+import type { StoredMemoryRecord } from './schema';
+
+/**
+ * - verified: hash matches and the owning wallet's signature checks out
+ * - unsigned: hash matches but no signature was recorded. Anyone able to edit the record
+ *   can recompute an unsigned seal, so this only shows the record is self-consistent.
+ * - tampered: hash or signature no longer matches the record, or a signature
+ *   the author's proof says was made has been removed
+ * - unverified: record predates integrity hashes
+ */
+export type IntegrityStatus = 'verified' | 'unsigned' | 'tampered' | 'unverified';
+
+export interface MemoryIntegrity {
+  hash: string;
+  // Hash layout, see INTEGRITY_VERSION; absent on the first version
+  version?: number;
+  // SHA-256 of the audio ciphertext, so listings can verify without reading the audio
+  audioHash?: string;
+  signature?: string;
+}
+
+// Signs with the Algorand "MX" prefix, as wallets do for arbitrary data
+export type BytesSigner = (data: Uint8Array, message: string) => Promise<Uint8Array>;
+
+// Version 2 added the time-lock and the IPFS audio CID, which version 1 seals leave out
+export const INTEGRITY_VERSION = 2;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * JSON with object keys sorted at every level, so equal values always hash equally
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function digestAudio(record: StoredMemoryRecord): Promise<string> {
+  return bytesToBase64(await sha256(new Uint8Array(await record.audio.ciphertext.arrayBuffer())));
+}
+
+/**
+ * SHA-256 over the encrypted audio and every field that decides who owns a memory,
+ * where its audio lives and how it opens. Absent optional fields drop out, so older
+ * seals still match. Ciphertext is hashed so locked memories can be checked too.
+ */
+export async function computeIntegrityHash(
+  record: StoredMemoryRecord,
+  audioHash: string,
+  version = INTEGRITY_VERSION
+): Promise<Uint8Array> {
+  const sealsStorage = version >= 2;
+  const canonical = canonicalJson({
+    id: record.id,
+    userAddress: record.userAddress,
+    network: record.network,
+    unlockDate: record.unlockDate,
+    unlockTimeZone: record.unlockTimeZone,
+    createdDate: record.createdDate,
+    duration: record.duration,
+    audio: { iv: record.audio.iv, sha256: audioHash, cid: sealsStorage ? record.cid?.audio : undefined },
+    metadata: record.metadata,
+    timeLock: sealsStorage ? record.timeLock : undefined,
+    puzzle: record.puzzle,
+    recipient: record.recipient,
+    trustees: record.trustees,
+    checkIn: record.checkIn,
+    unlockCondition: record.unlockCondition,
+    recurrence: record.recurrence,
+    anchor: record.anchor,
+    authorship: record.authorship
+  });
+  return sha256(textEncoder.encode(canonical));
+}
+
+export async function sealIntegrity(record: StoredMemoryRecord, signBytes?: BytesSigner): Promise<MemoryIntegrity> {
+  const audioHash = await digestAudio(record);
+  const hash = await computeIntegrityHash(record, audioHash);
+  const signature = signBytes
+    ? await signBytes(hash, `Seal ChronoLock memory "${record.id}"`)
+    : undefined;
+  return {
+    hash: bytesToBase64(hash),
+    version: INTEGRITY_VERSION,
+    audioHash,
+    signature: signature ? bytesToBase64(signature) : undefined
+  };
+}
+
+/**
+ * Check a record against its seal. The audio itself is only read when `checkAudio`
+ * is set, or for seals that predate the stored audio hash.
+ */
+export async function verifyIntegrity(
+  record: StoredMemoryRecord,
+  { checkAudio = false }: { checkAudio?: boolean } = {}
+): Promise<IntegrityStatus> {
+  if (!record.integrity) return 'unverified';
+
+  const { audioHash } = record.integrity;
+  const actualAudioHash = checkAudio || !audioHash ? await digestAudio(record) : audioHash;
+  if (audioHash && actualAudioHash !== audioHash) return 'tampered';
+
+  // Claiming an older version cannot help: the hash then misses the fields it was sealed with
+  const hash = await computeIntegrityHash(record, actualAudioHash, record.integrity.version ?? 1);
+  if (bytesToBase64(hash) !== record.integrity.hash) return 'tampered';
+  if (!record.integrity.signature) {
+    // Stripping the proof as well leaves a record that looks never signed, which views warn about
+    return record.authorship?.sealSigned ? 'tampered' : 'unsigned';
+  }
+
+  try {
+    return algosdk.verifyBytes(hash, base64ToBytes(record.integrity.signature), record.userAddress)
+      ? 'verified'
+      : 'tampered';
+  } catch {
+    return 'tampered';
+  }
+}
@@ -0,0 +1,195 @@
+import type { StoredMemoryRecord } from './schema';
+import { MemoryQuery, StorageBackend } from './storageBackend';
+
+export const DEFAULT_IPFS_API_URL = 'http://127.0.0.1:5001';
+
+/**
+ * Minimal client for the Kubo HTTP RPC API (`/api/v0/...`)
+ */
+export class IpfsClient {
+  constructor(private apiUrl: string = import.meta.env.VITE_IPFS_API_URL ?? DEFAULT_IPFS_API_URL) {}
+
+  /**
+   * Add and pin content, returning its CID
+   */
+  async add(content: Blob): Promise<string> {
+    return this.addWith(content, { pin: 'true' });
+  }
+
+  /**
+   * The CID `add` would return, computed without storing anything
+   */
+  async hash(content: Blob): Promise<string> {
+    return this.addWith(content, { 'only-hash': 'true' });
+  }
+
+  async cat(cid: string): Promise<Blob> {
+    const response = await this.call('cat', { arg: cid });
+    return response.blob();
+  }
+
+  async pin(cid: string): Promise<void> {
+    await this.call('pin/add', { arg: cid });
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await this.call('pin/rm', { arg: cid });
+  }
+
+  private async addWith(content: Blob, params: Record<string, string>): Promise<string> {
+    const form = new FormData();
+    form.append('file', content);
+
+    const response = await this.call('add', { ...params, 'cid-version': '1' }, form);
+    // The response is newline-delimited JSON with one entry per added file
+    const lines = (await response.text()).trim().split('\n');
+    const result: { Hash: string } = JSON.parse(lines[lines.length - 1]);
+    return result.Hash;
+  }
+
+  private async call(command: string, params: Record<string, string>, body?: FormData): Promise<Response> {
+    const url = `${this.apiUrl.replace(/\/$/, '')}/api/v0/${command}?${new URLSearchParams(params)}`;
+    // The RPC API only accepts POST
+    const response = await fetch(url, { method: 'POST', body });
+    if (!response.ok) {
+      throw new Error(`IPFS ${command} failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  }
+}
+
+// Published next to the audio so a capsule can be recovered from its CIDs alone
+interface IpfsManifest {
+  id: string;
+  userAddress: string;
+  network?: StoredMemoryRecord['network'];
+  unlockDate: string;
+  createdDate: string;
+  duration: number;
+  audio: { iv: string; cid: string };
+  metadata: StoredMemoryRecord['metadata'];
+  // Whatever is needed to recover the key without this device
+  puzzle?: StoredMemoryRecord['puzzle'];
+  recipient?: StoredMemoryRecord['recipient'];
+  trustees?: StoredMemoryRecord['trustees'];
+  checkIn?: StoredMemoryRecord['checkIn'];
+  unlockCondition?: StoredMemoryRecord['unlockCondition'];
+  recurrence?: StoredMemoryRecord['recurrence'];
+  authorship?: StoredMemoryRecord['authorship'];
+  anchor?: StoredMemoryRecord['anchor'];
+}
+
+// Unsealed fields that change after sealing: kept in the local index only, never
+// published, so updating them uploads nothing
+const LOCAL_FIELDS: ReadonlySet<string> = new Set(['listens', 'occurrences', 'trusteeApprovals']);
+
+/**
+ * Pins the encrypted audio and metadata of each memory to IPFS, keeping only
+ * the record and its CIDs in a local index backend
+ */
+export class IpfsBackend implements StorageBackend {
+  constructor(
+    private client: IpfsClient,
+    private index: StorageBackend
+  ) {}
+
+  async addressAudio(audio: Blob): Promise<string> {
+    return this.client.hash(audio);
+  }
+
+  async put(record: StoredMemoryRecord): Promise<void> {
+    // Records from `list` carry no audio; keep pointing at what is already pinned
+    const audioCid = record.cid && record.audio.ciphertext.size === 0
+      ? record.cid.audio
+      : await this.client.add(record.audio.ciphertext);
+    // The audio CID is sealed, so the node must agree with the address it was sealed under
+    if (record.cid && audioCid !== record.cid.audio) {
+      throw new Error(`IPFS stored the audio as ${audioCid}, but the record was sealed with ${record.cid.audio}`);
+    }
+
+    const manifest: IpfsManifest = {
+      id: record.id,
+      userAddress: record.userAddress,
+      network: record.network,
+      unlockDate: record.unlockDate,
+      createdDate: record.createdDate,
+      duration: record.duration,
+      audio: { iv: record.audio.iv, cid: audioCid },
+      metadata: record.metadata,
+      puzzle: record.puzzle,
+      recipient: record.recipient,
+      trustees: record.trustees,
+      checkIn: record.checkIn,
+      unlockCondition: record.unlockCondition,
+      recurrence: record.recurrence,
+      authorship: record.authorship,
+      anchor: record.anchor
+    };
+    const manifestCid = await this.client.add(new Blob([JSON.stringify(manifest)], { type: 'application/json' }));
+
+    // The audio itself lives on IPFS, the index only keeps where to find it
+    await this.index.put({
+      ...record,
+      audio: { iv: record.audio.iv, ciphertext: new Blob([]) },
+      cid: { audio: audioCid, manifest: manifestCid }
+    });
+  }
+
+  async get(memoryId: string): Promise<StoredMemoryRecord | undefined> {
+    const record = await this.index.get(memoryId);
+    return record ? this.hydrate(record) : undefined;
+  }
+
+  async list(query?: MemoryQuery): Promise<StoredMemoryRecord[]> {
+    // Audio is only fetched from IPFS through `get`
+    return this.index.list(query);
+  }
+
+  /**
+   * Like `list`, resolves with the index record, whose audio is left on IPFS
+   */
+  async update(memoryId: string, changes: Partial<Omit<StoredMemoryRecord, 'id'>>): Promise<StoredMemoryRecord> {
+    if (Object.keys(changes).every(field => LOCAL_FIELDS.has(field))) {
+      return this.index.update(memoryId, changes);
+    }
+
+    // The index record has no audio, so `put` keeps the pinned audio unless it is replaced
+    const record = await this.index.get(memoryId);
+    if (!record) {
+      throw new Error('Memory not found');
+    }
+    // Content addressing means any change produces new CIDs
+    const previous = record.cid;
+    await this.put({ ...record, ...changes });
+    const updated = await this.index.get(memoryId);
+    if (previous && updated?.cid) {
+      const next = updated.cid;
+      await Promise.all(
+        [previous.audio, previous.manifest]
+          .filter((cid): cid is string => Boolean(cid) && cid !== next.audio && cid !== next.manifest)
+          .map(cid => this.client.unpin(cid))
+      );
+    }
+    return updated!;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    const record = await this.index.get(memoryId);
+    if (record?.cid) {
+      await Promise.all(
+        [record.cid.audio, record.cid.manifest]
+          .filter((cid): cid is string => Boolean(cid))
+          .map(cid => this.client.unpin(cid))
+      );
+    }
+    await this.index.delete(memoryId);
+  }
+
+  private async hydrate(record: StoredMemoryRecord): Promise<StoredMemoryRecord> {
+    if (!record.cid) return record;
+    return {
+      ...record,
+      audio: { iv: record.audio.iv, ciphertext: await this.client.cat(record.cid.audio) }
+    };
+  }
+}
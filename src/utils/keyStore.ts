@@ -0,0 +1,46 @@
+import { base64ToBytes, bytesToBase64, randomBytes } from './crypto';
+
+const KEY_STORE_KEY = 'chronolock_keys';
+
+/**
+ * Holds the per-memory key material in `chronolock_keys`, apart from the ciphertext
+ * in the storage backend, so that a copy of the memories alone cannot be decrypted.
+ * The key store itself is not encrypted: keys are plaintext base64 in localStorage.
+ */
+export class KeyStore {
+  createKey(memoryId: string): Uint8Array {
+    const material = randomBytes(32);
+    this.setKey(memoryId, material);
+    return material;
+  }
+
+  setKey(memoryId: string, material: Uint8Array): void {
+    const keys = this.getAllKeys();
+    keys[memoryId] = bytesToBase64(material);
+    this.saveAllKeys(keys);
+  }
+
+  getKey(memoryId: string): Uint8Array | undefined {
+    const encoded = this.getAllKeys()[memoryId];
+    return encoded ? base64ToBytes(encoded) : undefined;
+  }
+
+  deleteKey(memoryId: string): void {
+    const keys = this.getAllKeys();
+    delete keys[memoryId];
+    this.saveAllKeys(keys);
+  }
+
+  private getAllKeys(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(KEY_STORE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveAllKeys(keys: Record<string, string>): void {
+    localStorage.setItem(KEY_STORE_KEY, JSON.stringify(keys));
+  }
+}
@@ -0,0 +1,59 @@
+import algosdk from 'algosdk';
+import type { NodeConfig } from './network';
+
+// AlgoKit LocalNet's funded wallet
+const DEFAULT_KMD_WALLET = 'unencrypted-default-wallet';
+
+/**
+ * One wallet of a node's KMD, such as the funded accounts of an AlgoKit LocalNet.
+ * Development only: KMD hands its keys to anyone who can reach it.
+ */
+export class KmdWallet {
+  private kmd: algosdk.Kmd;
+
+  constructor(
+    node: NodeConfig,
+    private walletName: string = import.meta.env.VITE_KMD_WALLET ?? DEFAULT_KMD_WALLET,
+    private password: string = import.meta.env.VITE_KMD_PASSWORD ?? ''
+  ) {
+    this.kmd = new algosdk.Kmd(node.token, node.server, node.port);
+  }
+
+  async listAccounts(): Promise<string[]> {
+    return this.withHandle(async handle => (await this.kmd.listKeys(handle)).addresses as string[]);
+  }
+
+  signTransactions(txns: algosdk.Transaction[], indexesToSign: number[]): Promise<Uint8Array[]> {
+    return this.withHandle(handle => Promise.all(
+      indexesToSign.map(index => this.kmd.signTransaction(handle, this.password, txns[index]))
+    ));
+  }
+
+  async signBytes(data: Uint8Array, address: string): Promise<Uint8Array> {
+    return this.withHandle(async handle => {
+      const { private_key: secretKey } = await this.kmd.exportKey(handle, this.password, address);
+      return algosdk.signBytes(data, secretKey);
+    });
+  }
+
+  /**
+   * An algosdk signer for the transaction-signing APIs
+   */
+  get signer(): algosdk.TransactionSigner {
+    return (txns, indexesToSign) => this.signTransactions(txns, indexesToSign);
+  }
+
+  private async withHandle<T>(run: (handle: string) => Promise<T>): Promise<T> {
+    const { wallets } = await this.kmd.listWallets();
+    const wallet = (wallets as { id: string; name: string }[]).find(candidate => candidate.name === this.walletName);
+    if (!wallet) {
+      throw new Error(`KMD has no wallet named ${this.walletName}`);
+    }
+    const { wallet_handle_token: handle } = await this.kmd.initWalletHandle(wallet.id, this.password);
+    try {
+      return await run(handle);
+    } finally {
+      await this.kmd.releaseWalletHandle(handle);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+export type NetworkId = 'localnet' | 'testnet' | 'mainnet';
+
+export interface NodeConfig {
+  server: string;
+  port: string;
+  token: string;
+}
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  algod: NodeConfig;
+  indexer: NodeConfig;
+  // Genesis id and hash identify the chain; LocalNet's hash changes on every reset
+  genesisId: string;
+  genesisHash?: string;
+  // Chain id the Pera and Defly Connect SDKs take: 416001 MainNet, 416002 TestNet, 4160 any
+  chainId: 416001 | 416002 | 416003 | 4160;
+  // Only LocalNet has a KMD with funded development accounts
+  kmd?: NodeConfig;
+  // Block explorer; transactions are at `${explorerUrl}/transaction/<id>`
+  explorerUrl: string;
+}
+
+// AlgoKit LocalNet defaults
+const LOCALNET_TOKEN = 'a'.repeat(64);
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  localnet: {
+    id: 'localnet',
+    name: 'LocalNet',
+    algod: { server: 'http://localhost', port: '4001', token: LOCALNET_TOKEN },
+    indexer: { server: 'http://localhost', port: '8980', token: LOCALNET_TOKEN },
+    genesisId: 'dockernet-v1',
+    chainId: 4160,
+    kmd: { server: 'http://localhost', port: '4002', token: LOCALNET_TOKEN },
+    explorerUrl: 'https://lora.algokit.io/localnet'
+  },
+  testnet: {
+    id: 'testnet',
+    name: 'TestNet',
+    algod: { server: 'https://testnet-api.algonode.cloud', port: '', token: '' },
+    indexer: { server: 'https://testnet-idx.algonode.cloud', port: '', token: '' },
+    genesisId: 'testnet-v1.0',
+    genesisHash: 'SGO1GKSzyE7IEPItTxCByw9x8FmnrCDexi9/cOUJOiI=',
+    chainId: 416002,
+    explorerUrl: 'https://lora.algokit.io/testnet'
+  },
+  mainnet: {
+    id: 'mainnet',
+    name: 'MainNet',
+    algod: { server: 'https://mainnet-api.algonode.cloud', port: '', token: '' },
+    indexer: { server: 'https://mainnet-idx.algonode.cloud', port: '', token: '' },
+    genesisId: 'mainnet-v1.0',
+    genesisHash: 'wGHE2Pwdvd7S12BL5FaOP20EGYesN73ktiC1qzkkit8=',
+    chainId: 416001,
+    explorerUrl: 'https://lora.algokit.io/mainnet'
+  }
+};
+
+// Records saved before memories were tagged are taken to be MainNet's, so an untagged
+// record can never borrow LocalNet's adjustable clock
+export const LEGACY_NETWORK: NetworkId = 'mainnet';
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && value in NETWORKS;
+}
+
+function withOverrides(node: NodeConfig, server?: string, port?: string, token?: string): NodeConfig {
+  return { server: server ?? node.server, port: port ?? node.port, token: token ?? node.token };
+}
+
+/**
+ * The network named by `VITE_NETWORK`, defaulting to MainNet. `VITE_ALGOD_*`,
+ * `VITE_INDEXER_*` and `VITE_KMD_*` point it at other nodes of the same chain.
+ */
+export function getNetwork(id: string | undefined = import.meta.env.VITE_NETWORK): NetworkConfig {
+  const networkId = id ?? 'mainnet';
+  if (!isNetworkId(networkId)) {
+    throw new Error(`Unknown network ${networkId}`);
+  }
+  const network = NETWORKS[networkId];
+  const env = import.meta.env;
+  return {
+    ...network,
+    algod: withOverrides(network.algod, env.VITE_ALGOD_SERVER, env.VITE_ALGOD_PORT, env.VITE_ALGOD_TOKEN),
+    indexer: withOverrides(network.indexer, env.VITE_INDEXER_SERVER, env.VITE_INDEXER_PORT, env.VITE_INDEXER_TOKEN),
+    kmd: network.kmd && withOverrides(network.kmd, env.VITE_KMD_SERVER, env.VITE_KMD_PORT, env.VITE_KMD_TOKEN)
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createAlgodClient, createIndexerClient } from './algorand';
+import { NETWORKS } from './network';
+import { KmdWallet } from './kmd';
+import { randomBytes } from './crypto';
+import { AnchorStatus, AnchoredContent, anchorInNote, decodeAnchorNote, encodeAnchorNote, verifyAnchor } from './noteAnchor';
+
+const network = NETWORKS.localnet;
+const algod = createAlgodClient(network);
+const indexer = createIndexerClient(network);
+// Needs an AlgoKit LocalNet with its indexer (`algokit localnet start`); skipped without one
+const isLocalNetRunning = await Promise.all([algod.healthCheck().do(), indexer.makeHealthCheck().do()])
+  .then(() => true, () => false);
+
+describe('anchor notes', () => {
+  it('round-trip the memory id, content hash and unlock time, and ignore other notes', () => {
+    const content = { memoryId: 'memory_1', contentHash: randomBytes(32), unlockDate: new Date('2030-01-01T00:00:00.000Z') };
+    expect(decodeAnchorNote(encodeAnchorNote(content))).toEqual(content);
+    expect(decodeAnchorNote(new TextEncoder().encode('chronolock:j{"id":1}'))).toBeUndefined();
+    expect(decodeAnchorNote(new TextEncoder().encode('another app'))).toBeUndefined();
+  });
+});
+
+describe.skipIf(!isLocalNetRunning)('verifyAnchor on LocalNet', () => {
+  it('verifies the anchoring transaction and rejects anything it does not commit to', async () => {
+    const kmd = new KmdWallet(network.kmd!);
+    const [owner, other] = await kmd.listAccounts();
+    const content: AnchoredContent = {
+      memoryId: `memory_${Date.now()}`,
+      contentHash: randomBytes(32),
+      unlockDate: new Date('2030-01-01T00:00:00.000Z')
+    };
+    const anchor = await anchorInNote(algod, content, owner, kmd.signer);
+
+    // The indexer trails algod by a moment
+    let status: AnchorStatus = 'unavailable';
+    for (let attempt = 0; attempt < 20 && status === 'unavailable'; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      status = await verifyAnchor(indexer, anchor, content, owner);
+    }
+    expect(status).toBe('verified');
+
+    const later = new Date('2031-01-01T00:00:00.000Z');
+    const earlier = new Date('2029-01-01T00:00:00.000Z');
+    expect(await verifyAnchor(indexer, anchor, { ...content, unlockDate: later }, owner)).toBe('verified');
+    expect(await verifyAnchor(indexer, anchor, { ...content, unlockDate: earlier }, owner)).toBe('mismatch');
+    expect(await verifyAnchor(indexer, anchor, { ...content, contentHash: randomBytes(32) }, owner)).toBe('mismatch');
+    expect(await verifyAnchor(indexer, anchor, { ...content, memoryId: 'memory_other' }, owner)).toBe('mismatch');
+    expect(await verifyAnchor(indexer, anchor, content, other)).toBe('mismatch');
+    expect(await verifyAnchor(indexer, { ...anchor, confirmedRound: anchor.confirmedRound + 1 }, content, owner))
+      .toBe('mismatch');
+  }, 60000);
+});
@@ -0,0 +1,106 @@
+import algosdk from 'algosdk';
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+/**
+ * A 0-ALGO payment from the owner to themselves whose note commits to a memory.
+ * Lighter than the time-lock application: it enforces nothing, but the block it
+ * landed in is public evidence of when the memory was sealed and what it held.
+ */
+export interface NoteAnchor {
+  txId: string;
+  confirmedRound: number;
+}
+
+export interface AnchoredContent {
+  memoryId: string;
+  contentHash: Uint8Array;
+  unlockDate: Date;
+}
+
+// 'unavailable' when the transaction could not be looked up, which proves nothing either way
+export type AnchorStatus = 'verified' | 'mismatch' | 'unavailable';
+
+// ARC-2 note: `<dapp name>:<format><data>`, where `j` is JSON
+const NOTE_PREFIX = 'chronolock:j';
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeAnchorNote({ memoryId, contentHash, unlockDate }: AnchoredContent): Uint8Array {
+  return textEncoder.encode(NOTE_PREFIX + JSON.stringify({
+    id: memoryId,
+    hash: bytesToBase64(contentHash),
+    unlock: Math.floor(unlockDate.getTime() / 1000)
+  }));
+}
+
+/**
+ * Read a note written by `encodeAnchorNote`, or return undefined for any other note
+ */
+export function decodeAnchorNote(note: Uint8Array): AnchoredContent | undefined {
+  const text = textDecoder.decode(note);
+  if (!text.startsWith(NOTE_PREFIX)) return undefined;
+  try {
+    const { id, hash, unlock } = JSON.parse(text.slice(NOTE_PREFIX.length));
+    if (typeof id !== 'string' || typeof hash !== 'string' || typeof unlock !== 'number') return undefined;
+    return { memoryId: id, contentHash: base64ToBytes(hash), unlockDate: new Date(unlock * 1000) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Send the anchoring self-payment through `signer` and wait for it to be confirmed
+ */
+export async function anchorInNote(
+  algod: algosdk.Algodv2,
+  content: AnchoredContent,
+  sender: string,
+  signer: algosdk.TransactionSigner
+): Promise<NoteAnchor> {
+  const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender,
+    receiver: sender,
+    amount: 0,
+    note: encodeAnchorNote(content),
+    suggestedParams: await algod.getTransactionParams().do()
+  });
+
+  const [signed] = await signer([txn], [0]);
+  await algod.sendRawTransaction(signed).do();
+  const { confirmedRound } = await algosdk.waitForConfirmation(algod, txn.txID(), 4);
+  if (confirmedRound === undefined) {
+    throw new Error('Anchoring transaction was not confirmed');
+  }
+  return { txId: txn.txID(), confirmedRound: Number(confirmedRound) };
+}
+
+/**
+ * Look the anchoring transaction up on the indexer and check that it is `sender`'s
+ * self-payment, confirmed in the recorded round, whose note commits to `content`.
+ * Memories only ever move their unlock later, so a later unlock than the note's still matches.
+ */
+export async function verifyAnchor(
+  indexer: algosdk.Indexer,
+  anchor: NoteAnchor,
+  content: AnchoredContent,
+  sender: string
+): Promise<AnchorStatus> {
+  let txn: algosdk.indexerModels.Transaction;
+  try {
+    ({ transaction: txn } = await indexer.lookupTransactionByID(anchor.txId).do());
+  } catch (error) {
+    console.warn('Anchor lookup failed:', error);
+    return 'unavailable';
+  }
+
+  const note = txn.note && decodeAnchorNote(txn.note);
+  const matches = note !== undefined &&
+    txn.txType === 'pay' &&
+    txn.sender === sender &&
+    txn.paymentTransaction?.receiver === sender &&
+    Number(txn.confirmedRound) === anchor.confirmedRound &&
+    note.memoryId === content.memoryId &&
+    bytesToBase64(note.contentHash) === bytesToBase64(content.contentHash) &&
+    note.unlockDate.getTime() <= content.unlockDate.getTime();
+  return matches ? 'verified' : 'mismatch';
+}
@@ -0,0 +1,50 @@
+import { PuzzleSetup, bigIntToHex, hexToBigInt, setUpPuzzle, square } from './timeLockPuzzle';
+
+export type PuzzleWorkerRequest =
+  | {
+    type: 'solve';
+    modulus: string;
+    squarings: number;
+    // Where to resume from
+    progress: { squaringsDone: number; value: string };
+  }
+  | { type: 'setUp'; seconds: number };
+
+export type PuzzleWorkerMessage =
+  | { type: 'progress'; squaringsDone: number; value: string }
+  | { type: 'solved'; value: string }
+  | { type: 'setUp'; setup: PuzzleSetup };
+
+const CHUNK = 10000;
+const REPORT_INTERVAL_MS = 1000;
+
+/**
+ * Sets up new puzzles, and solves puzzles by squaring in chunks, reporting a
+ * resumable checkpoint about once a second
+ */
+self.onmessage = (event: MessageEvent<PuzzleWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'setUp') {
+    self.postMessage({ type: 'setUp', setup: setUpPuzzle(request.seconds) } satisfies PuzzleWorkerMessage);
+    return;
+  }
+
+  const { squarings, progress } = request;
+  const modulus = hexToBigInt(request.modulus);
+  let value = hexToBigInt(progress.value);
+  let done = progress.squaringsDone;
+  let lastReport = performance.now();
+
+  while (done < squarings) {
+    const count = Math.min(CHUNK, squarings - done);
+    value = square(value, count, modulus);
+    done += count;
+
+    if (performance.now() - lastReport >= REPORT_INTERVAL_MS) {
+      self.postMessage({ type: 'progress', squaringsDone: done, value: bigIntToHex(value) } satisfies PuzzleWorkerMessage);
+      lastReport = performance.now();
+    }
+  }
+
+  self.postMessage({ type: 'solved', value: bigIntToHex(value) } satisfies PuzzleWorkerMessage);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getRecurrenceState, occurrences, parseRule, Recurrence } from './recurrence';
+
+const HOUR = 60 * 60;
+
+function take(recurrence: Recurrence, start: Date, timeZone: string, count: number): string[] {
+  const result: string[] = [];
+  for (const occurrence of occurrences(recurrence, start, timeZone)) {
+    result.push(occurrence.toISOString());
+    if (result.length === count) break;
+  }
+  return result;
+}
+
+describe('recurrence', () => {
+  it('repeats at the same wall-clock time across daylight saving', () => {
+    const start = new Date('2027-01-15T17:00:00.000Z'); // noon in New York
+    expect(take({ rule: 'FREQ=MONTHLY;BYMONTHDAY=15', windowSeconds: HOUR }, start, 'America/New_York', 7)).toEqual([
+      '2027-01-15T17:00:00.000Z',
+      '2027-02-15T17:00:00.000Z',
+      '2027-03-15T16:00:00.000Z',
+      '2027-04-15T16:00:00.000Z',
+      '2027-05-15T16:00:00.000Z',
+      '2027-06-15T16:00:00.000Z',
+      '2027-07-15T16:00:00.000Z'
+    ]);
+  });
+
+  it('counts negative BYMONTHDAY from the end of the month', () => {
+    const start = new Date('2027-01-31T00:00:00.000Z');
+    expect(take({ rule: 'FREQ=MONTHLY;BYMONTHDAY=-1', windowSeconds: HOUR }, start, 'UTC', 3)).toEqual([
+      '2027-01-31T00:00:00.000Z',
+      '2027-02-28T00:00:00.000Z',
+      '2027-03-31T00:00:00.000Z'
+    ]);
+  });
+
+  it('stops after COUNT occurrences, the first included', () => {
+    const start = new Date('2027-01-01T00:00:00.000Z');
+    expect(take({ rule: 'FREQ=YEARLY;COUNT=2', windowSeconds: HOUR }, start, 'UTC', 5)).toEqual([
+      '2027-01-01T00:00:00.000Z',
+      '2028-01-01T00:00:00.000Z'
+    ]);
+  });
+
+  it('is open only inside a listening window', () => {
+    const recurrence = { rule: 'FREQ=DAILY', windowSeconds: HOUR };
+    const start = new Date('2027-01-01T08:00:00.000Z');
+
+    const during = getRecurrenceState(recurrence, start, 'UTC', new Date('2027-01-03T08:30:00.000Z'));
+    expect(during.isOpen).toBe(true);
+    expect(during.windowEnds?.toISOString()).toBe('2027-01-03T09:00:00.000Z');
+
+    const between = getRecurrenceState(recurrence, start, 'UTC', new Date('2027-01-03T10:00:00.000Z'));
+    expect(between.isOpen).toBe(false);
+    expect(between.nextOpening?.toISOString()).toBe('2027-01-04T08:00:00.000Z');
+
+    const before = getRecurrenceState(recurrence, start, 'UTC', new Date('2026-12-31T08:00:00.000Z'));
+    expect(before).toMatchObject({ isOpen: false, openedAt: undefined });
+  });
+
+  it('rejects rules outside the supported subset', () => {
+    expect(() => parseRule('FREQ=HOURLY')).toThrow();
+    expect(() => parseRule('FREQ=MONTHLY;BYSETPOS=1')).toThrow();
+  });
+});
@@ -0,0 +1,277 @@
+import { fromZonedParts, getLocalTimeZone, toZonedParts } from './timezone';
+
+/**
+ * How a memory reopens after its first unlock. `rule` is an iCalendar RRULE whose
+ * DTSTART is the memory's unlock date, kept in the zone it was chosen in; each opening
+ * lasts `windowSeconds` before the memory seals again.
+ */
+export interface Recurrence {
+  rule: string;
+  windowSeconds: number;
+}
+
+export type RecurrenceFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY';
+
+/**
+ * The supported subset of RFC 5545: FREQ, INTERVAL, COUNT, UNTIL, BYMONTH,
+ * BYMONTHDAY (negative days count from the month's end) and, for weekly rules, BYDAY.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  // 0 = Sunday, as Date#getUTCDay
+  byDay?: number[];
+}
+
+export interface RecurrenceState {
+  isOpen: boolean;
+  // Start of the latest occurrence at or before the time asked about
+  openedAt?: Date;
+  // When the current listening window closes, if open
+  windowEnds?: Date;
+  // Start of the next occurrence, unless the rule has run out
+  nextOpening?: Date;
+}
+
+export const YEARLY_RULE = 'FREQ=YEARLY';
+export const MONTHLY_RULE = 'FREQ=MONTHLY';
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Give up on rules whose next occurrence is this many periods away, e.g. BYMONTHDAY=31;BYMONTH=2
+const MAX_EMPTY_PERIODS = 10000;
+
+function parseNumberList(value: string, min: number, max: number, name: string): number[] {
+  return value.split(',').map(part => {
+    const number = Number(part);
+    if (!Number.isInteger(number) || number < min || number > max || number === 0) {
+      throw new Error(`Invalid ${name} value ${part}`);
+    }
+    return number;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value ${value}`);
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+}
+
+/**
+ * Parse an RRULE such as `FREQ=MONTHLY;BYMONTHDAY=-1`, with or without the `RRULE:` prefix.
+ * Throws on anything outside the supported subset rather than guessing.
+ */
+export function parseRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (!name || value === undefined) {
+      throw new Error(`Malformed rule part ${part}`);
+    }
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'YEARLY' && freq !== 'MONTHLY' && freq !== 'WEEKLY' && freq !== 'DAILY') {
+    throw new Error('The rule needs a FREQ of YEARLY, MONTHLY, WEEKLY or DAILY');
+  }
+  const parsed: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        [parsed.interval] = parseNumberList(value, 1, 1000, 'INTERVAL');
+        break;
+      case 'COUNT':
+        [parsed.count] = parseNumberList(value, 1, 100000, 'COUNT');
+        break;
+      case 'UNTIL':
+        parsed.until = parseUntil(value);
+        break;
+      case 'BYMONTH':
+        parsed.byMonth = parseNumberList(value, 1, 12, 'BYMONTH');
+        break;
+      case 'BYMONTHDAY':
+        parsed.byMonthDay = parseNumberList(value, -31, 31, 'BYMONTHDAY');
+        break;
+      case 'BYDAY':
+        if (freq !== 'WEEKLY') {
+          throw new Error('BYDAY is only supported on weekly rules');
+        }
+        parsed.byDay = value.split(',').map(day => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index < 0) throw new Error(`Invalid BYDAY value ${day}`);
+          return index;
+        });
+        break;
+      default:
+        throw new Error(`Unsupported rule part ${name}`);
+    }
+  }
+  if (parsed.count !== undefined && parsed.until) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+  return parsed;
+}
+
+export function isValidRecurrence(value: unknown): value is Recurrence {
+  if (typeof value !== 'object' || value === null) return false;
+  const { rule, windowSeconds } = value as Record<string, unknown>;
+  if (typeof rule !== 'string' || typeof windowSeconds !== 'number' || !(windowSeconds > 0)) {
+    return false;
+  }
+  try {
+    parseRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Days are counted from the Unix epoch, in wall-clock terms of the memory's zone
+function toDay(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function fromDay(day: number): { year: number; month: number; date: number; weekday: number; iso: string } {
+  const value = new Date(day * DAY_MS);
+  return {
+    year: value.getUTCFullYear(),
+    month: value.getUTCMonth() + 1,
+    date: value.getUTCDate(),
+    weekday: value.getUTCDay(),
+    iso: value.toISOString().slice(0, 10)
+  };
+}
+
+function daysOfMonth(year: number, month: number, byMonthDay: number[]): number[] {
+  const length = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days = byMonthDay
+    .map(day => (day > 0 ? day : length + day + 1))
+    .filter(day => day >= 1 && day <= length)
+    .map(day => Date.UTC(year, month - 1, day) / DAY_MS);
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Candidate days of each period in order, before DTSTART filtering and COUNT/UNTIL
+ */
+function* candidateDays(rule: RecurrenceRule, startDay: number): Generator<number[]> {
+  const start = fromDay(startDay);
+  const monthDays = rule.byMonthDay ?? [start.date];
+  const matchesMonth = (day: number) => !rule.byMonth || rule.byMonth.includes(fromDay(day).month);
+
+  for (let period = 0; ; period++) {
+    const step = period * rule.interval;
+    switch (rule.freq) {
+      case 'YEARLY': {
+        const months = [...(rule.byMonth ?? [start.month])].sort((a, b) => a - b);
+        yield months.flatMap(month => daysOfMonth(start.year + step, month, monthDays));
+        break;
+      }
+      case 'MONTHLY': {
+        const monthIndex = start.month - 1 + step;
+        const year = start.year + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        yield rule.byMonth && !rule.byMonth.includes(month) ? [] : daysOfMonth(year, month, monthDays);
+        break;
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday, the RFC default
+        const weekStart = startDay - ((start.weekday + 6) % 7) + step * 7;
+        const weekdays = rule.byDay ?? [start.weekday];
+        yield weekdays
+          .map(weekday => weekStart + ((weekday + 6) % 7))
+          .sort((a, b) => a - b)
+          .filter(matchesMonth);
+        break;
+      }
+      case 'DAILY': {
+        const day = startDay + step;
+        const dayOfMonth = fromDay(day).date;
+        const length = new Date(Date.UTC(fromDay(day).year, fromDay(day).month, 0)).getUTCDate();
+        const matchesDay = !rule.byMonthDay ||
+          rule.byMonthDay.some(candidate => (candidate > 0 ? candidate : length + candidate + 1) === dayOfMonth);
+        yield matchesMonth(day) && matchesDay ? [day] : [];
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Occurrence starts in order, beginning with `start` itself
+ */
+export function* occurrences(recurrence: Recurrence, start: Date, timeZone = getLocalTimeZone()): Generator<Date> {
+  const rule = parseRule(recurrence.rule);
+  const { date, time } = toZonedParts(start, timeZone);
+  const startDay = toDay(date);
+
+  yield start;
+  let produced = 1;
+  let emptyPeriods = 0;
+  for (const days of candidateDays(rule, startDay)) {
+    const later = days.filter(day => day > startDay);
+    emptyPeriods = later.length === 0 ? emptyPeriods + 1 : 0;
+    if (emptyPeriods > MAX_EMPTY_PERIODS) return;
+
+    for (const day of later) {
+      if (rule.count !== undefined && produced >= rule.count) return;
+      const occurrence = fromZonedParts({ date: fromDay(day).iso, time }, timeZone);
+      if (rule.until && occurrence > rule.until) return;
+      produced++;
+      yield occurrence;
+    }
+  }
+}
+
+/**
+ * Whether a recurring memory is inside a listening window at `at`, and when it next opens
+ */
+export function getRecurrenceState(
+  recurrence: Recurrence,
+  start: Date,
+  timeZone: string | undefined,
+  at: Date
+): RecurrenceState {
+  let openedAt: Date | undefined;
+  let nextOpening: Date | undefined;
+  for (const occurrence of occurrences(recurrence, start, timeZone)) {
+    if (occurrence > at) {
+      nextOpening = occurrence;
+      break;
+    }
+    openedAt = occurrence;
+  }
+
+  const windowEnds = openedAt && new Date(openedAt.getTime() + recurrence.windowSeconds * 1000);
+  const isOpen = Boolean(windowEnds && at < windowEnds);
+  return { isOpen, openedAt, windowEnds: isOpen ? windowEnds : undefined, nextOpening };
+}
+
+/**
+ * e.g. "every year", "every 2 weeks", or the rule itself for anything more involved
+ */
+export function describeRecurrence(rule: string): string {
+  try {
+    const parsed = parseRule(rule);
+    const unit = { YEARLY: 'year', MONTHLY: 'month', WEEKLY: 'week', DAILY: 'day' }[parsed.freq];
+    const isSimple = !parsed.byMonth && !parsed.byMonthDay && !parsed.byDay && !parsed.count && !parsed.until;
+    if (isSimple) {
+      return parsed.interval === 1 ? `every ${unit}` : `every ${parsed.interval} ${unit}s`;
+    }
+  } catch {
+    // Shown as written
+  }
+  return rule;
+}
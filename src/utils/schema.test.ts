@@ -0,0 +1,15 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Quarantine } from './schema';
+
+describe('Quarantine', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('treats an unreadable quarantine as empty and starts it afresh', () => {
+    localStorage.setItem('chronolock_quarantine', '{not json');
+    const quarantine = new Quarantine();
+    expect(quarantine.list()).toEqual([]);
+
+    quarantine.add({ id: 'memory_1', reason: 'Missing audio' });
+    expect(quarantine.list()).toMatchObject([{ id: 'memory_1', reason: 'Missing audio' }]);
+  });
+});
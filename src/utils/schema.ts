@@ -0,0 +1,328 @@
+import {
+  EncryptedBlob,
+  EncryptedPayload,
+  base64ToBytes,
+  deriveMemoryKey,
+  encryptBlob,
+  encryptJson
+} from './crypto';
+import type { MemoryIntegrity } from './integrity';
+import type { AuthorshipProof } from './authorship';
+import type { NoteAnchor } from './noteAnchor';
+import { KeyStore } from './keyStore';
+import type { RecipientEnvelope } from './giftCapsule';
+import type { TimeLockPuzzle } from './timeLockPuzzle';
+import { isValidTimeZone } from './timezone';
+import { UnlockCondition, isValidCondition } from './unlockCondition';
+import { Recurrence, isValidRecurrence } from './recurrence';
+import { NetworkId, isNetworkId } from './network';
+
+/**
+ * Schema history of memory records:
+ * - 0: plaintext records with base64 `audioData`, before encryption
+ * - 1: encrypted records without a version field; audio ciphertext in base64
+ *      (localStorage era) or as a Blob (IndexedDB era)
+ * - 2: encrypted records with `schemaVersion` and Blob audio ciphertext
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export interface MemoryMetadata {
+  title: string;
+  note?: string;
+  emotion: { tone: string; intensity: number };
+  // Container the audio was recorded in; absent on memories saved before it was tracked
+  mimeType?: string;
+}
+
+export interface StoredMemoryRecord {
+  schemaVersion: typeof CURRENT_SCHEMA_VERSION;
+  id: string;
+  userAddress: string;
+  // Chain whose clock and accounts the memory belongs to. Sealed, so a memory cannot be
+  // moved to a network with a friendlier clock; untagged records belong to LEGACY_NETWORK.
+  network?: NetworkId;
+  unlockDate: string;
+  // IANA zone the unlock time was chosen in; unlockDate is already the absolute instant
+  unlockTimeZone?: string;
+  createdDate: string;
+  duration: number;
+  audio: EncryptedBlob;
+  metadata: EncryptedPayload;
+  // Set when the payload is pinned to IPFS. The audio CID is sealed; the manifest holds
+  // the seal, so its CID is only known once the record is published.
+  cid?: { audio: string; manifest?: string };
+  // Set when the lock is enforced by the Algorand time-lock application
+  timeLock?: { appId: string; contentHash: string };
+  // Set when the content hash and unlock time were written into an Algorand transaction note
+  anchor?: NoteAnchor;
+  // Set when the key is only recoverable by solving a time-lock puzzle
+  puzzle?: TimeLockPuzzle;
+  // Set on gifts: the key wrapped for the recipient, who is not `userAddress`
+  recipient?: RecipientEnvelope;
+  // Set when any `threshold` of the trustees together open the memory
+  trustees?: TrusteeConfig;
+  // Shares released by approving trustees, by share index. Not sealed by the
+  // integrity hash, since they are added after sealing; a bad share only fails to decrypt.
+  trusteeApprovals?: Record<string, string>;
+  // Set on dead man's switch memories, whose unlockDate is always the last check-in plus the interval
+  checkIn?: CheckInSwitch;
+  // Further requirements that must hold, besides the unlock date, before the memory opens
+  unlockCondition?: UnlockCondition;
+  // How often the memory has been listened to. Not sealed, since it changes on every listen,
+  // and, like the approvals and occurrences, kept off IPFS in the local index.
+  listens?: number;
+  // Set when the memory seals again after each opening and reopens on the next occurrence
+  recurrence?: Recurrence;
+  // Starts of the occurrences this memory has been listened to in. Not sealed, as it grows over time.
+  occurrences?: string[];
+  // The creator's wallet signature over what they recorded, when their wallet can sign data
+  authorship?: AuthorshipProof;
+  // Hash, and optionally the owner's signature, taken when the memory was sealed
+  integrity?: MemoryIntegrity;
+}
+
+export interface TrusteeConfig {
+  threshold: number;
+  // One Shamir share of the key per trustee, wrapped to that trustee's account
+  shares: { address: string; index: number; envelope: RecipientEnvelope }[];
+}
+
+export interface CheckInSwitch {
+  intervalSeconds: number;
+  lastCheckIn: string;
+}
+
+interface MemoryRecordV0 extends MemoryMetadata {
+  id: string;
+  userAddress: string;
+  unlockDate: string;
+  createdDate: string;
+  duration?: number;
+  audioData: string;
+}
+
+interface MemoryRecordV1 extends Omit<StoredMemoryRecord, 'schemaVersion' | 'audio'> {
+  audio: { iv: string; ciphertext: string | Blob };
+}
+
+export interface MigrationContext {
+  keyStore: KeyStore;
+}
+
+export type MigrationResult =
+  | { ok: true; record: StoredMemoryRecord; migrated: boolean }
+  | { ok: false; reason: string };
+
+// Each entry upgrades a record from its key version to the next one
+const migrations: Record<number, (record: unknown, context: MigrationContext) => Promise<unknown>> = {
+  0: async (record, { keyStore }) => {
+    const legacy = record as MemoryRecordV0;
+    const key = await deriveMemoryKey(keyStore.createKey(legacy.id), legacy.id);
+    const sealed: MemoryRecordV1 = {
+      id: legacy.id,
+      userAddress: legacy.userAddress,
+      unlockDate: legacy.unlockDate,
+      createdDate: legacy.createdDate,
+      duration: legacy.duration || 0,
+      audio: await encryptBlob(key, new Blob([base64ToBytes(legacy.audioData)]), `${legacy.id}:audio`),
+      metadata: await encryptJson(
+        key,
+        { title: legacy.title, note: legacy.note, emotion: legacy.emotion },
+        `${legacy.id}:metadata`
+      )
+    };
+    return sealed;
+  },
+  1: async record => {
+    const { audio, ...rest } = record as MemoryRecordV1;
+    const upgraded: StoredMemoryRecord = {
+      ...rest,
+      schemaVersion: 2,
+      audio: {
+        iv: audio.iv,
+        ciphertext: typeof audio.ciphertext === 'string'
+          ? new Blob([base64ToBytes(audio.ciphertext)], { type: 'application/octet-stream' })
+          : audio.ciphertext
+      }
+    };
+    return upgraded;
+  }
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isIsoDate(value: unknown): boolean {
+  return typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+}
+
+export function detectSchemaVersion(record: Record<string, unknown>): number {
+  if (typeof record.schemaVersion === 'number') return record.schemaVersion;
+  return 'audioData' in record ? 0 : 1;
+}
+
+/**
+ * Describe why a record does not match the current schema, or return null if it does
+ */
+export function validateRecord(record: unknown): string | null {
+  if (!isObject(record)) return 'Record is not an object';
+  if (record.schemaVersion !== CURRENT_SCHEMA_VERSION) return `Unexpected schema version ${record.schemaVersion}`;
+  if (typeof record.id !== 'string' || !record.id) return 'Missing id';
+  if (typeof record.userAddress !== 'string' || !record.userAddress) return 'Missing userAddress';
+  if (record.network !== undefined && !isNetworkId(record.network)) return 'Invalid network';
+  if (!isIsoDate(record.unlockDate)) return 'Invalid unlockDate';
+  if (record.unlockTimeZone !== undefined && (
+    typeof record.unlockTimeZone !== 'string' || !isValidTimeZone(record.unlockTimeZone)
+  )) {
+    return 'Invalid unlockTimeZone';
+  }
+  if (!isIsoDate(record.createdDate)) return 'Invalid createdDate';
+  if (typeof record.duration !== 'number') return 'Invalid duration';
+
+  const { audio, metadata } = record;
+  if (!isObject(audio) || typeof audio.iv !== 'string' || !(audio.ciphertext instanceof Blob)) {
+    return 'Invalid audio payload';
+  }
+  if (!isObject(metadata) || typeof metadata.iv !== 'string' || typeof metadata.ciphertext !== 'string') {
+    return 'Invalid metadata payload';
+  }
+
+  const { puzzle } = record;
+  if (puzzle !== undefined && (
+    !isObject(puzzle) || typeof puzzle.modulus !== 'string' || typeof puzzle.base !== 'string' ||
+    typeof puzzle.squarings !== 'number' || !isObject(puzzle.wrappedKey)
+  )) {
+    return 'Invalid time-lock puzzle';
+  }
+
+  const { recipient } = record;
+  if (recipient !== undefined && (
+    !isObject(recipient) || typeof recipient.address !== 'string' ||
+    typeof recipient.ephemeralPublicKey !== 'string' || !isObject(recipient.wrappedKey)
+  )) {
+    return 'Invalid recipient envelope';
+  }
+
+  const { trustees } = record;
+  if (trustees !== undefined && (
+    !isObject(trustees) || typeof trustees.threshold !== 'number' || !Array.isArray(trustees.shares) ||
+    trustees.threshold < 1 || trustees.threshold > trustees.shares.length
+  )) {
+    return 'Invalid trustee configuration';
+  }
+  if (record.trusteeApprovals !== undefined && !isObject(record.trusteeApprovals)) {
+    return 'Invalid trustee approvals';
+  }
+
+  const { checkIn } = record;
+  if (checkIn !== undefined && (
+    !isObject(checkIn) || typeof checkIn.intervalSeconds !== 'number' || !(checkIn.intervalSeconds > 0) ||
+    !isIsoDate(checkIn.lastCheckIn)
+  )) {
+    return 'Invalid check-in switch';
+  }
+
+  if (record.unlockCondition !== undefined && !isValidCondition(record.unlockCondition)) {
+    return 'Invalid unlock condition';
+  }
+  if (record.listens !== undefined && (!Number.isInteger(record.listens) || (record.listens as number) < 0)) {
+    return 'Invalid listen count';
+  }
+
+  if (record.recurrence !== undefined && !isValidRecurrence(record.recurrence)) {
+    return 'Invalid recurrence';
+  }
+  if (record.occurrences !== undefined && (
+    !Array.isArray(record.occurrences) || !record.occurrences.every(isIsoDate)
+  )) {
+    return 'Invalid occurrence history';
+  }
+
+  const { anchor } = record;
+  if (anchor !== undefined && (
+    !isObject(anchor) || typeof anchor.txId !== 'string' || !Number.isInteger(anchor.confirmedRound)
+  )) {
+    return 'Invalid transaction anchor';
+  }
+
+  const { authorship } = record;
+  if (authorship !== undefined && (
+    !isObject(authorship) || typeof authorship.audioHash !== 'string' || typeof authorship.signature !== 'string' ||
+    (authorship.sealSigned !== undefined && typeof authorship.sealSigned !== 'boolean')
+  )) {
+    return 'Invalid authorship proof';
+  }
+
+  const { integrity } = record;
+  if (integrity !== undefined && (
+    !isObject(integrity) ||
+    typeof integrity.hash !== 'string' ||
+    (integrity.version !== undefined && typeof integrity.version !== 'number')
+  )) {
+    return 'Invalid integrity seal';
+  }
+  return null;
+}
+
+/**
+ * Upgrade a record of any known schema version to the current one and validate it
+ */
+export async function migrateRecord(raw: unknown, context: MigrationContext): Promise<MigrationResult> {
+  if (!isObject(raw)) {
+    return { ok: false, reason: 'Record is not an object' };
+  }
+
+  let version = detectSchemaVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, reason: `Schema version ${version} is newer than this app supports` };
+  }
+
+  let record: unknown = raw;
+  try {
+    while (version < CURRENT_SCHEMA_VERSION) {
+      record = await migrations[version](record, context);
+      version++;
+    }
+  } catch (error) {
+    return { ok: false, reason: `Migration from version ${version} failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+
+  const problem = validateRecord(record);
+  if (problem) {
+    return { ok: false, reason: problem };
+  }
+  return { ok: true, record: record as StoredMemoryRecord, migrated: record !== raw };
+}
+
+export interface QuarantinedRecord {
+  id: string | null;
+  reason: string;
+  quarantinedAt: string;
+  // Kept for records that only existed in the old localStorage array;
+  // records from a backend stay where they are and are only excluded
+  record?: unknown;
+}
+
+const QUARANTINE_KEY = 'chronolock_quarantine';
+
+/**
+ * Records that failed migration or validation, kept for inspection instead of being dropped
+ */
+export class Quarantine {
+  add(entry: Omit<QuarantinedRecord, 'quarantinedAt'>): void {
+    const entries = this.list().filter(existing => entry.id === null || existing.id !== entry.id);
+    entries.push({ ...entry, quarantinedAt: new Date().toISOString() });
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+  }
+
+  list(): QuarantinedRecord[] {
+    try {
+      const stored = localStorage.getItem(QUARANTINE_KEY);
+      const entries = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { combineShares, splitSecret } from './shamir';
+import { randomBytes } from './crypto';
+
+describe('shamir', () => {
+  it('recovers the secret from any threshold of shares', () => {
+    const secret = randomBytes(32);
+    const shares = splitSecret(secret, 5, 3);
+
+    expect(combineShares([shares[0], shares[1], shares[2]])).toEqual(secret);
+    expect(combineShares([shares[4], shares[1], shares[3]])).toEqual(secret);
+    expect(combineShares(shares)).toEqual(secret);
+  });
+
+  it('does not recover the secret from fewer shares than the threshold', () => {
+    const secret = randomBytes(32);
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares([shares[0], shares[1]])).not.toEqual(secret);
+  });
+
+  it('rejects impossible thresholds and repeated shares', () => {
+    const secret = randomBytes(16);
+    expect(() => splitSecret(secret, 3, 4)).toThrow();
+    expect(() => splitSecret(secret, 3, 0)).toThrow();
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('Shares must be distinct');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Shamir secret sharing over GF(256), one polynomial per secret byte.
+ * Shares are numbered 1..255; x = 0 is the secret itself.
+ */
+export interface SecretShare {
+  index: number;
+  bytes: Uint8Array;
+}
+
+// Log and exponent tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator 3
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero');
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split `secret` into `count` shares, any `threshold` of which recover it
+ */
+export function splitSecret(secret: Uint8Array, count: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > count || count > 255) {
+    throw new Error('Need 1 <= threshold <= shares <= 255');
+  }
+
+  const shares = Array.from({ length: count }, (_, i) => ({ index: i + 1, bytes: new Uint8Array(secret.length) }));
+  const coefficients = new Uint8Array(threshold);
+  for (let position = 0; position < secret.length; position++) {
+    coefficients[0] = secret[position];
+    crypto.getRandomValues(coefficients.subarray(1));
+
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = multiply(y, share.index) ^ coefficients[c];
+      }
+      share.bytes[position] = y;
+    }
+  }
+  return shares;
+}
+
+/**
+ * Recover the secret from at least `threshold` distinct shares by Lagrange interpolation at 0.
+ * With too few shares the result is garbage, not an error; callers must verify it.
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) throw new Error('No shares to combine');
+  if (new Set(shares.map(share => share.index)).size !== shares.length) {
+    throw new Error('Shares must be distinct');
+  }
+
+  const length = shares[0].bytes.length;
+  const secret = new Uint8Array(length);
+  for (const share of shares) {
+    // Lagrange basis polynomial of this share evaluated at 0
+    let basis = 1;
+    for (const other of shares) {
+      if (other.index !== share.index) {
+        basis = multiply(basis, divide(other.index, other.index ^ share.index));
+      }
+    }
+    for (let position = 0; position < length; position++) {
+      secret[position] ^= multiply(share.bytes[position], basis);
+    }
+  }
+  return secret;
+}
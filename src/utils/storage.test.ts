@@ -0,0 +1,341 @@
+import algosdk from 'algosdk';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChronoLockStorage } from './storage';
+import { InMemoryBackend } from './storageBackend';
+import { FakeTimeSource } from './timeSource';
+import { NETWORKS } from './network';
+import { IpfsBackend, IpfsClient } from './ipfs';
+import { readArchive } from './archive';
+import { computeIntegrityHash, digestAudio, sealIntegrity, verifyIntegrity } from './integrity';
+import { bytesToBase64, sha256 } from './crypto';
+
+// The test environment has no audio decoder
+vi.mock('./audio', async importOriginal => ({
+  ...await importOriginal<typeof import('./audio')>(),
+  decodeAudio: async () => ({ duration: 3 })
+}));
+
+const OWNER = 'OWNER';
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ChronoLockStorage open rules', () => {
+  let backend: InMemoryBackend;
+  let clock: FakeTimeSource;
+  let storage: ChronoLockStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend = new InMemoryBackend();
+    clock = new FakeTimeSource(new Date('2027-01-01T00:00:00.000Z'));
+    storage = new ChronoLockStorage({ backend, timeSource: clock, network: NETWORKS.localnet });
+  });
+
+  function store(unlockDate: Date, options: Partial<Parameters<ChronoLockStorage['storeVoiceMemory']>[1]> = {}) {
+    return storage.storeVoiceMemory(new Blob(['voice'], { type: 'audio/webm' }), {
+      title: 'A memory',
+      unlockDate,
+      emotion: { tone: 'Joy', intensity: 5 },
+      userAddress: OWNER,
+      ...options
+    });
+  }
+
+  it('stays locked until trusted time reaches the unlock date', async () => {
+    const { memoryId } = await store(new Date('2027-01-02T00:00:00.000Z'));
+
+    const [locked] = await storage.getUserMemories(OWNER);
+    expect(locked).toMatchObject({ id: memoryId, isLocked: true, title: 'Sealed Memory' });
+    await expect(storage.retrieveVoiceMemory(memoryId)).rejects.toThrow('Memory is still time-locked');
+
+    clock.advance(DAY);
+    const [unlocked] = await storage.getUserMemories(OWNER);
+    expect(unlocked).toMatchObject({ isLocked: false, title: 'A memory', integrity: 'unsigned' });
+    const { audioBlob } = await storage.retrieveVoiceMemory(memoryId);
+    expect(await audioBlob.text()).toBe('voice');
+  });
+
+  it('stays locked while trusted time is unavailable, whatever the local clock says', async () => {
+    const { memoryId } = await store(new Date('2020-01-01T00:00:00.000Z'));
+    clock.setAvailable(false);
+
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory.isLocked).toBe(true);
+    await expect(storage.retrieveVoiceMemory(memoryId)).rejects.toThrow('Trusted time is unavailable');
+  });
+
+  it('never opens a memory whose unlock date was moved earlier', async () => {
+    const { memoryId } = await store(new Date('2030-01-01T00:00:00.000Z'));
+    await backend.update(memoryId, { unlockDate: '2020-01-01T00:00:00.000Z' });
+
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory).toMatchObject({ isLocked: true, integrity: 'tampered' });
+    await expect(storage.retrieveVoiceMemory(memoryId)).rejects.toThrow('Memory failed integrity verification');
+  });
+
+  it('treats a memory stripped of its time-lock as tampered', async () => {
+    const { memoryId } = await store(new Date('2030-01-01T00:00:00.000Z'));
+    const record = (await backend.get(memoryId))!;
+    const locked = { ...record, timeLock: { appId: '1', contentHash: 'hash' } };
+    locked.integrity = await sealIntegrity(locked);
+    // Without the time-lock the key would come from the key store rather than the chain
+    await backend.put({ ...locked, timeLock: undefined });
+
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory.integrity).toBe('tampered');
+  });
+
+  it('refuses to edit the metadata of an anchored memory', async () => {
+    const { memoryId } = await store(new Date('2027-01-01T00:00:00.000Z'));
+    const record = (await backend.get(memoryId))!;
+    const anchored = { ...record, anchor: { txId: 'TX', confirmedRound: 1 } };
+    anchored.integrity = await sealIntegrity(anchored);
+    await backend.put(anchored);
+
+    await expect(storage.updateVoiceMemory(memoryId, { title: 'Renamed' }))
+      .rejects.toThrow('Memories anchored on chain keep the title, note and emotion they were anchored with');
+    expect((await backend.get(memoryId))!.metadata).toEqual(record.metadata);
+
+    // Moving the unlock date later still matches the anchor, which only bounds it from below
+    await storage.updateVoiceMemory(memoryId, { unlockDate: new Date('2028-01-01T00:00:00.000Z') });
+    expect((await backend.get(memoryId))!.unlockDate).toBe('2028-01-01T00:00:00.000Z');
+  });
+
+  it('treats a signed seal stripped of its signature as tampered', async () => {
+    const account = algosdk.generateAccount();
+    const { memoryId } = await store(new Date('2030-01-01T00:00:00.000Z'), {
+      userAddress: account.addr.toString(),
+      signBytes: async data => algosdk.signBytes(data, account.sk)
+    });
+    const record = (await backend.get(memoryId))!;
+    expect(await verifyIntegrity(record)).toBe('verified');
+
+    // Move the unlock date and reseal without a signature
+    const forged = { ...record, unlockDate: '2020-01-01T00:00:00.000Z' };
+    const hash = await computeIntegrityHash(forged, record.integrity!.audioHash!);
+    forged.integrity = { hash: bytesToBase64(hash), audioHash: record.integrity!.audioHash };
+    await backend.put(forged);
+
+    expect(await verifyIntegrity(forged)).toBe('tampered');
+    await expect(storage.retrieveVoiceMemory(memoryId)).rejects.toThrow('Memory failed integrity verification');
+  });
+
+  it('only moves the unlock date later', async () => {
+    const { memoryId } = await store(new Date('2027-06-01T00:00:00.000Z'));
+    await expect(storage.updateVoiceMemory(memoryId, { unlockDate: new Date('2027-03-01T00:00:00.000Z') }))
+      .rejects.toThrow('The unlock date can only be moved later');
+
+    await storage.updateVoiceMemory(memoryId, { unlockDate: new Date('2028-01-01T00:00:00.000Z') });
+    clock.set(new Date('2027-07-01T00:00:00.000Z'));
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory).toMatchObject({ isLocked: true, integrity: 'unsigned' });
+  });
+
+  it('opens a recurring memory only inside its listening windows', async () => {
+    const { memoryId } = await store(new Date('2027-01-01T12:00:00.000Z'), {
+      unlockTimeZone: 'UTC',
+      recurrence: { rule: 'FREQ=YEARLY', windowSeconds: DAY / 1000 }
+    });
+
+    clock.set(new Date('2027-01-01T18:00:00.000Z'));
+    await expect(storage.retrieveVoiceMemory(memoryId)).resolves.toMatchObject({ isUnlocked: true });
+
+    clock.set(new Date('2027-06-01T00:00:00.000Z'));
+    const [sealed] = await storage.getUserMemories(OWNER);
+    expect(sealed.isLocked).toBe(true);
+    expect(sealed.recurrence?.nextOpening?.toISOString()).toBe('2028-01-01T12:00:00.000Z');
+    await expect(storage.retrieveVoiceMemory(memoryId)).rejects.toThrow('Memory is still time-locked');
+
+    clock.set(new Date('2028-01-01T13:00:00.000Z'));
+    await expect(storage.retrieveVoiceMemory(memoryId)).resolves.toMatchObject({ isUnlocked: true });
+    expect((await backend.get(memoryId))?.occurrences).toEqual(['2027-01-01T12:00:00.000Z', '2028-01-01T12:00:00.000Z']);
+  });
+
+  it('exports a gift with only its recipient-wrapped key, which the recipient can open', async () => {
+    const recipient = algosdk.generateAccount();
+    const { memoryId } = await store(new Date('2027-01-02T00:00:00.000Z'), { recipient: recipient.addr.toString() });
+    await store(new Date('2027-01-02T00:00:00.000Z'));
+
+    const gift = await storage.exportGift(memoryId);
+    const { records, keys } = await readArchive(gift);
+    expect(records.map(record => record.id)).toEqual([memoryId]);
+    expect(keys).toEqual({});
+
+    // The recipient's device shares nothing with the sender's
+    localStorage.clear();
+    const theirs = new ChronoLockStorage({ backend: new InMemoryBackend(), timeSource: clock, network: NETWORKS.localnet });
+    expect(await theirs.importArchive(gift)).toEqual({ imported: [memoryId], skipped: [], approvalsMerged: [] });
+
+    clock.advance(DAY);
+    await theirs.claimGift(memoryId, algosdk.secretKeyToMnemonic(recipient.sk));
+    const { audioBlob } = await theirs.retrieveVoiceMemory(memoryId);
+    expect(await audioBlob.text()).toBe('voice');
+  });
+
+  it('merges trustee approvals from an archive into a memory already here', async () => {
+    const [first, second] = [algosdk.generateAccount(), algosdk.generateAccount()];
+    const { memoryId } = await store(new Date('2027-01-02T00:00:00.000Z'), {
+      trustees: { addresses: [first.addr.toString(), second.addr.toString()], threshold: 2 }
+    });
+
+    // Each trustee approves on a different device
+    const elsewhere = new ChronoLockStorage({ backend: new InMemoryBackend(), timeSource: clock, network: NETWORKS.localnet });
+    await elsewhere.importArchive(await storage.exportArchive(OWNER, 'passphrase'), 'passphrase');
+    await elsewhere.approveAsTrustee(memoryId, algosdk.secretKeyToMnemonic(first.sk));
+    await storage.approveAsTrustee(memoryId, algosdk.secretKeyToMnemonic(second.sk));
+
+    const archive = await elsewhere.exportArchive(OWNER, 'passphrase');
+    expect(await storage.importArchive(archive, 'passphrase'))
+      .toEqual({ imported: [], skipped: [memoryId], approvalsMerged: [memoryId] });
+    expect(await storage.importArchive(archive, 'passphrase'))
+      .toEqual({ imported: [], skipped: [memoryId], approvalsMerged: [] });
+
+    clock.advance(DAY);
+    const { audioBlob } = await storage.retrieveVoiceMemory(memoryId);
+    expect(await audioBlob.text()).toBe('voice');
+  });
+
+  it('lists memories without writing to the backend', async () => {
+    await store(new Date('2027-01-01T00:00:00.000Z'), {
+      unlockTimeZone: 'UTC',
+      recurrence: { rule: 'FREQ=DAILY', windowSeconds: 3600 }
+    });
+    const update = vi.spyOn(backend, 'update');
+    const put = vi.spyOn(backend, 'put');
+
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory.isLocked).toBe(false);
+    expect(memory.recurrence?.history).toEqual([new Date('2027-01-01T00:00:00.000Z')]);
+    expect(update).not.toHaveBeenCalled();
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('waits for another memory to be listened to when the condition says so', async () => {
+    const first = await store(new Date('2027-01-01T00:00:00.000Z'));
+    const second = await store(new Date('2027-01-01T00:00:00.000Z'), {
+      unlockCondition: { type: 'listens', memoryId: first.memoryId, count: 1 }
+    });
+
+    await expect(storage.retrieveVoiceMemory(second.memoryId)).rejects.toThrow('Memory is still time-locked');
+    await storage.recordListen(first.memoryId);
+    await expect(storage.retrieveVoiceMemory(second.memoryId)).resolves.toMatchObject({ isUnlocked: true });
+  });
+});
+
+// Content-addressed by SHA-256, so `hash` and `add` agree as they do on a real node
+class FakeIpfsClient extends IpfsClient {
+  blocks = new Map<string, Blob>();
+  added: Blob[] = [];
+
+  async add(content: Blob): Promise<string> {
+    const cid = await this.hash(content);
+    this.blocks.set(cid, content);
+    this.added.push(content);
+    return cid;
+  }
+
+  async hash(content: Blob): Promise<string> {
+    return `cid-${bytesToBase64(await sha256(new Uint8Array(await content.arrayBuffer())))}`;
+  }
+
+  async cat(cid: string): Promise<Blob> {
+    const block = this.blocks.get(cid);
+    if (!block) throw new Error(`Unknown CID ${cid}`);
+    return block;
+  }
+
+  async pin(): Promise<void> {}
+
+  async unpin(cid: string): Promise<void> {
+    this.blocks.delete(cid);
+  }
+}
+
+describe('ChronoLockStorage on IPFS', () => {
+  let client: FakeIpfsClient;
+  let index: InMemoryBackend;
+  let backend: IpfsBackend;
+  let clock: FakeTimeSource;
+  let storage: ChronoLockStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    client = new FakeIpfsClient();
+    index = new InMemoryBackend();
+    backend = new IpfsBackend(client, index);
+    clock = new FakeTimeSource(new Date('2027-01-01T00:00:00.000Z'));
+    storage = new ChronoLockStorage({
+      backend,
+      timeSource: clock,
+      network: NETWORKS.localnet
+    });
+  });
+
+  function store(unlockDate: Date) {
+    return storage.storeVoiceMemory(new Blob(['voice'], { type: 'audio/webm' }), {
+      title: 'A memory',
+      unlockDate,
+      emotion: { tone: 'Joy', intensity: 5 },
+      userAddress: OWNER
+    });
+  }
+
+  it('exports the audio kept on IPFS, not the empty copy in the index', async () => {
+    const { memoryId } = await store(new Date('2028-01-01T00:00:00.000Z'));
+
+    const { records } = await readArchive(await storage.exportArchive(OWNER, 'passphrase'), 'passphrase');
+    expect(records[0].id).toBe(memoryId);
+    expect(records[0].audio.ciphertext.size).toBeGreaterThan(0);
+  });
+
+  it('verifies seals without an audio hash against the audio on IPFS', async () => {
+    const { memoryId } = await store(new Date('2027-01-02T00:00:00.000Z'));
+    // A seal from before audio hashes were stored, which also left out the audio CID
+    const record = (await backend.get(memoryId))!;
+    const hash = await computeIntegrityHash(record, await digestAudio(record), 1);
+    await index.update(memoryId, { integrity: { hash: bytesToBase64(hash) } });
+
+    const [memory] = await storage.getUserMemories(OWNER);
+    expect(memory.integrity).toBe('unsigned');
+  });
+
+  it('seals the CID the audio is pinned under', async () => {
+    const { memoryId } = await store(new Date('2027-01-01T00:00:00.000Z'));
+    const other = await store(new Date('2027-01-01T00:00:00.000Z'));
+    const { cid } = (await index.get(other.memoryId))!;
+    expect(cid?.audio).toBeDefined();
+
+    // Pointing at someone else's audio breaks the seal
+    await index.update(memoryId, { cid: { ...(await index.get(memoryId))!.cid, audio: cid!.audio } });
+    const memory = (await storage.getUserMemories(OWNER)).find(m => m.id === memoryId);
+    expect(memory?.integrity).toBe('tampered');
+  });
+
+  it('keeps listen counts in the local index without uploading anything', async () => {
+    const { memoryId } = await store(new Date('2027-01-01T00:00:00.000Z'));
+    const uploads = client.added.length;
+
+    await storage.recordListen(memoryId);
+    expect(client.added.length).toBe(uploads);
+    expect((await index.get(memoryId))?.listens).toBe(1);
+  });
+
+  it('republishes only the manifest when sealed fields change', async () => {
+    const { memoryId } = await store(new Date('2028-01-01T00:00:00.000Z'));
+    await index.update(memoryId, { listens: 2, occurrences: ['2027-01-01T00:00:00.000Z'] });
+    const { cid } = (await index.get(memoryId))!;
+    const cat = vi.spyOn(client, 'cat');
+
+    await storage.updateVoiceMemory(memoryId, { unlockDate: new Date('2029-01-01T00:00:00.000Z') });
+    const updated = (await index.get(memoryId))!;
+    expect(updated.cid?.audio).toBe(cid?.audio);
+    expect(updated.cid?.manifest).not.toBe(cid?.manifest);
+    // Once, for the integrity check before the change; the upload reuses the pinned audio
+    expect(cat).toHaveBeenCalledTimes(1);
+
+    // Nothing that changes after sealing is published
+    const manifest = JSON.parse(await client.added[client.added.length - 1].text());
+    expect(manifest).not.toHaveProperty('listens');
+    expect(manifest).not.toHaveProperty('occurrences');
+    expect(updated.listens).toBe(2);
+  });
+});
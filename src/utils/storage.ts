@@ -1,10 +1,186 @@
+import type { Algodv2, Indexer, TransactionSigner } from 'algosdk';
+import { createAlgodClient, createIndexerClient, getLatestRound } from './algorand';
+import { buildArchive, buildGiftArchive, readArchive } from './archive';
+import { decodeAudio, sniffAudioMimeType } from './audio';
+import { MemoryChangeFeed, MemoryChangeListener } from './changeFeed';
+import { BytesSigner, IntegrityStatus, sealIntegrity, verifyIntegrity } from './integrity';
+import { AuthorshipStatus, signAuthorship, verifyAuthorship } from './authorship';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptBlob,
+  decryptJson,
+  deriveMemoryKey,
+  encryptBlob,
+  encryptJson,
+  randomBytes,
+  sha256
+} from './crypto';
+import { KeyStore } from './keyStore';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MemoryMetadata,
+  Quarantine,
+  QuarantinedRecord,
+  StoredMemoryRecord,
+  migrateRecord
+} from './schema';
+import { MemoryQuery, StorageBackend, createStorageBackend } from './storageBackend';
+import { TimeLockClient } from './timeLockContract';
+import { ClockStatus, TimeSource, checkClock, createTimeSource } from './timeSource';
+import { PuzzleProgressStore, PuzzleSetup, createPuzzle, openPuzzle } from './timeLockPuzzle';
+import { isValidTimeZone } from './timezone';
+import { accountFromMnemonic, isValidRecipient, openWithMnemonic, sealForRecipient } from './giftCapsule';
+import { combineShares, splitSecret } from './shamir';
+import { Recurrence, getRecurrenceState, isValidRecurrence } from './recurrence';
+import {
+  ConditionContext,
+  UnlockCondition,
+  evaluateCondition,
+  isValidCondition,
+  referencedMemories
+} from './unlockCondition';
+import { LEGACY_NETWORK, NetworkConfig, getNetwork } from './network';
+import { AnchorStatus, NoteAnchor, anchorInNote, verifyAnchor } from './noteAnchor';
+import type { PuzzleWorkerMessage, PuzzleWorkerRequest } from './puzzleWorker';
+
+const LEGACY_STORAGE_KEY = 'chronolock_memories';
+
 export interface StorageResult {
   memoryId: string;
 }
 
+export interface MemoryUpdate extends Partial<Omit<MemoryMetadata, 'mimeType'>> {
+  unlockDate?: Date;
+  unlockTimeZone?: string;
+}
+
+export interface UserMemory extends MemoryMetadata {
+  id: string;
+  unlockDate: Date;
+  unlockTimeZone?: string;
+  createdDate: Date;
+  duration: number;
+  isLocked: boolean;
+  cid?: string;
+  integrity: IntegrityStatus;
+  // Whether the owner's wallet provably recorded this memory
+  authorship: AuthorshipStatus;
+  anchor?: NoteAnchor;
+  puzzle?: PuzzleStatus;
+  // Owner, and for gifts the account it is addressed to
+  userAddress: string;
+  recipient?: string;
+  // A gift past its unlock date whose key the recipient has not unwrapped on this device
+  awaitingKey?: boolean;
+  trustees?: TrusteeStatus;
+  checkIn?: CheckInStatus;
+  unlockCondition?: UnlockCondition;
+  // What of `unlockCondition` is still unmet; absent once it holds
+  pendingCondition?: UnlockCondition;
+  listens: number;
+  recurrence?: RecurrenceStatus;
+}
+
+export interface RecurrenceStatus extends Recurrence {
+  // Start of the next occurrence while sealed, unless the rule has run out
+  nextOpening?: Date;
+  // When the current listening window closes, while open
+  windowEnds?: Date;
+  // Occurrences the memory has been listened to in, oldest first, and the open one
+  history: Date[];
+}
+
+export interface CheckInStatus {
+  intervalSeconds: number;
+  lastCheckIn: Date;
+}
+
+export interface TrusteeStatus {
+  threshold: number;
+  addresses: string[];
+  approvedBy: string[];
+}
+
+export interface TrusteeOptions {
+  addresses: string[];
+  threshold: number;
+}
+
+export interface PuzzleStatus {
+  squarings: number;
+  squaringsDone: number;
+  // Squarings per second on the device that sealed the memory
+  calibratedRate: number;
+}
+
+export interface ArchiveImportResult {
+  imported: string[];
+  // Memories already present on this device, by id
+  skipped: string[];
+  // Skipped memories that gained trustee approvals from the archive
+  approvalsMerged: string[];
+}
+
+export interface ChronoLockStorageOptions {
+  backend?: StorageBackend;
+  timeLock?: TimeLockClient;
+  changeFeed?: MemoryChangeFeed;
+  // Decides when memories unlock; the local clock is never consulted
+  timeSource?: TimeSource;
+  // Reports the current round for round-based unlock conditions
+  algod?: Algodv2;
+  // Looks up the transactions memories are anchored in
+  indexer?: Indexer;
+  // Only memories of this network are listed or opened; it also picks the default algod and clock
+  network?: NetworkConfig;
+}
+
+// Shown in place of the encrypted metadata while a memory is still locked
+const SEALED_METADATA: MemoryMetadata = {
+  title: 'Sealed Memory',
+  emotion: { tone: 'Sealed', intensity: 0 }
+};
+
 export class ChronoLockStorage {
+  private keyStore = new KeyStore();
+  private puzzleProgress = new PuzzleProgressStore();
+  private quarantine = new Quarantine();
+  private migration: Promise<void> | null = null;
+  private backend: StorageBackend;
+  private timeLock?: TimeLockClient;
+  private changeFeed: MemoryChangeFeed;
+  private timeSource: TimeSource;
+  private algod: Algodv2;
+  private indexer: Indexer;
+  private network: NetworkConfig;
+
+  constructor(options: ChronoLockStorageOptions = {}) {
+    this.network = options.network ?? getNetwork();
+    this.backend = options.backend ?? createStorageBackend();
+    this.timeLock = options.timeLock;
+    this.changeFeed = options.changeFeed ?? new MemoryChangeFeed();
+    this.timeSource = options.timeSource ?? createTimeSource(undefined, this.network);
+    this.algod = options.algod ?? createAlgodClient(this.network);
+    this.indexer = options.indexer ?? createIndexerClient(this.network);
+  }
+
+  /**
+   * Trusted time and how far the local clock is from it
+   */
+  getClockStatus(): Promise<ClockStatus> {
+    return checkClock(this.timeSource);
+  }
+
   /**
-   * Store a voice memory using localStorage
+   * Be told when another tab or window adds, changes or deletes memories
+   */
+  onRemoteChange(listener: MemoryChangeListener): () => void {
+    return this.changeFeed.subscribe(listener);
+  }
+
+  /**
+   * Encrypt a voice memory with AES-256-GCM and store it in the configured backend
    */
   async storeVoiceMemory(
     audioBlob: Blob,
@@ -12,33 +188,192 @@ export class ChronoLockStorage {
       title: string;
       note?: string;
       unlockDate: Date;
+      // Zone the unlock time was picked in, kept so it can be shown as chosen
+      unlockTimeZone?: string;
       emotion: { tone: string; intensity: number };
       userAddress: string;
+      // Required to register the lock on chain when a time-lock client is configured
+      signer?: TransactionSigner;
+      // Signs the authorship manifest and integrity hash on behalf of the owning wallet
+      signBytes?: BytesSigner;
+      // Send a 0-ALGO self-payment through `signer` whose note records the content hash and unlock time
+      anchorInNote?: boolean;
+      // Keep the key only inside a time-lock puzzle sized to the time until unlock
+      timeLockPuzzle?: boolean;
+      // Address a gift to another account; only that account can unwrap the key
+      recipient?: string;
+      // Split the key between trustees, any `threshold` of whom can open the memory
+      trustees?: TrusteeOptions;
+      // Dead man's switch: ignore unlockDate and open for the recipient once the owner
+      // has not checked in for this many seconds
+      checkInInterval?: number;
+      // Required in addition to the unlock date
+      unlockCondition?: UnlockCondition;
+      // Seal again after each listening window and reopen on the next occurrence
+      recurrence?: Recurrence;
     }
   ): Promise<StorageResult> {
     try {
+      await this.migrateLocalStorage();
+
+      if (metadata.unlockTimeZone && !isValidTimeZone(metadata.unlockTimeZone)) {
+        throw new Error(`Unknown timezone ${metadata.unlockTimeZone}`);
+      }
+      const recipient = metadata.recipient && metadata.recipient !== metadata.userAddress
+        ? metadata.recipient
+        : undefined;
+      if (recipient && !isValidRecipient(recipient)) {
+        throw new Error('Recipient is not a valid Algorand address');
+      }
+      if (recipient && metadata.timeLockPuzzle) {
+        throw new Error('A gift cannot also be sealed with a time-lock puzzle');
+      }
+      const trustees = metadata.trustees;
+      if (trustees) {
+        if (recipient || metadata.timeLockPuzzle) {
+          throw new Error('Trustee memories cannot also be gifts or puzzles');
+        }
+        if (trustees.addresses.some(address => !isValidRecipient(address))) {
+          throw new Error('Every trustee must be a valid Algorand address');
+        }
+        if (new Set(trustees.addresses).size !== trustees.addresses.length) {
+          throw new Error('Each trustee can only be named once');
+        }
+      }
+
+      const { checkInInterval } = metadata;
+      let unlockDate = metadata.unlockDate;
+      let checkIn: StoredMemoryRecord['checkIn'];
+      if (checkInInterval !== undefined) {
+        if (!recipient) {
+          throw new Error('A check-in switch needs a recipient to open for');
+        }
+        if (!Number.isFinite(checkInInterval) || checkInInterval <= 0) {
+          throw new Error('The check-in interval must be a positive number of seconds');
+        }
+        // The deadline is a lock decision, so it is taken from trusted time
+        const now = await this.timeSource.now();
+        unlockDate = new Date(now.getTime() + checkInInterval * 1000);
+        checkIn = { intervalSeconds: checkInInterval, lastCheckIn: now.toISOString() };
+      }
+
+      const { unlockCondition } = metadata;
+      if (unlockCondition) {
+        if (!isValidCondition(unlockCondition)) {
+          throw new Error('Unlock condition is malformed');
+        }
+        for (const memoryId of referencedMemories(unlockCondition)) {
+          if (!await this.loadRecord(memoryId)) {
+            throw new Error(`Unlock condition refers to unknown memory ${memoryId}`);
+          }
+        }
+      }
+
+      const { recurrence } = metadata;
+      if (recurrence) {
+        if (!isValidRecurrence(recurrence)) {
+          throw new Error('Recurrence rule is malformed or unsupported');
+        }
+        if (metadata.timeLockPuzzle || checkIn) {
+          throw new Error('Puzzles and check-in switches open only once and cannot recur');
+        }
+      }
+
+      if (metadata.anchorInNote && !metadata.signer) {
+        throw new Error('Anchoring in a transaction note requires a wallet to sign with');
+      }
+
       // Generate unique memory ID
       const memoryId = this.generateMemoryId();
 
-      // Convert audio blob to base64 for localStorage
-      const audioBase64 = await this.blobToBase64(audioBlob);
+      // Derive a fresh key for this memory, kept in the separate key store
+      // unless it is to be locked inside a puzzle, sent to someone else or split between trustees
+      const material = metadata.timeLockPuzzle || recipient || trustees
+        ? randomBytes(32)
+        : this.keyStore.createKey(memoryId);
+      const key = await deriveMemoryKey(material, memoryId);
 
-      // Store memory data
-      const memoryData = {
-        id: memoryId,
+      const memoryMetadata: MemoryMetadata = {
         title: metadata.title,
         note: metadata.note,
-        unlockDate: metadata.unlockDate.toISOString(),
-        createdDate: new Date().toISOString(),
         emotion: metadata.emotion,
+        mimeType: audioBlob.type || undefined
+      };
+
+      // Only the data needed to evaluate the lock stays in the clear
+      const memoryData: StoredMemoryRecord = {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        id: memoryId,
         userAddress: metadata.userAddress,
-        audioData: audioBase64,
+        network: this.network.id,
+        unlockDate: unlockDate.toISOString(),
+        unlockTimeZone: metadata.unlockTimeZone,
+        createdDate: new Date().toISOString(),
         duration: await this.getAudioDuration(audioBlob),
-        isLocked: new Date() < metadata.unlockDate
+        audio: await encryptBlob(key, audioBlob, `${memoryId}:audio`),
+        metadata: await encryptJson(key, memoryMetadata, `${memoryId}:metadata`),
+        checkIn,
+        unlockCondition,
+        recurrence
       };
 
-      // Store in localStorage
-      this.storeLocalReference(memoryData);
+      if (recipient) {
+        memoryData.recipient = await sealForRecipient(material, memoryId, recipient);
+      } else if (trustees) {
+        const shares = splitSecret(material, trustees.addresses.length, trustees.threshold);
+        memoryData.trustees = {
+          threshold: trustees.threshold,
+          shares: await Promise.all(shares.map(async (share, i) => ({
+            address: trustees.addresses[i],
+            index: share.index,
+            envelope: await sealForRecipient(share.bytes, `${memoryId}:trustee`, trustees.addresses[i])
+          })))
+        };
+      } else if (metadata.timeLockPuzzle) {
+        // Sizing is not a lock decision, so the local clock will do when trusted time is missing
+        const now = await this.timeSource.now().catch(() => new Date());
+        const seconds = Math.max(0, (metadata.unlockDate.getTime() - now.getTime()) / 1000);
+        memoryData.puzzle = await createPuzzle(material, memoryId, seconds, this.setUpPuzzleInWorker);
+      } else if (this.timeLock && metadata.signer) {
+        // The chain releases a key from the key store, which puzzles and gifts do not keep
+        const contentHash = await this.computeContentHash(memoryData);
+        await this.timeLock.register(
+          memoryId,
+          contentHash,
+          metadata.unlockDate,
+          metadata.userAddress,
+          metadata.signer
+        );
+        memoryData.timeLock = {
+          appId: this.timeLock.appId.toString(),
+          contentHash: bytesToBase64(contentHash)
+        };
+      }
+
+      if (metadata.anchorInNote && metadata.signer) {
+        memoryData.anchor = await anchorInNote(
+          this.algod,
+          { memoryId, contentHash: await this.computeContentHash(memoryData), unlockDate },
+          metadata.userAddress,
+          metadata.signer
+        );
+      }
+
+      if (metadata.signBytes) {
+        memoryData.authorship = await signAuthorship(memoryData, metadata.signBytes);
+      }
+
+      // Content-addressed backends tell up front where the audio goes, so that is sealed too
+      const audioCid = await this.backend.addressAudio?.(memoryData.audio.ciphertext);
+      if (audioCid) {
+        memoryData.cid = { audio: audioCid };
+      }
+
+      // Sealed once every sealed field is set; listens and the like are added later
+      memoryData.integrity = await sealIntegrity(memoryData, metadata.signBytes);
+
+      await this.backend.put(memoryData);
+      this.changeFeed.publish({ type: 'added', memoryIds: [memoryId] });
 
       return {
         memoryId
@@ -51,41 +386,58 @@ export class ChronoLockStorage {
   }
 
   /**
-   * Retrieve a voice memory from localStorage
+   * Retrieve and decrypt a voice memory from the configured backend
    */
   async retrieveVoiceMemory(memoryId: string): Promise<{
     audioBlob: Blob;
-    metadata: any;
+    metadata: MemoryMetadata & { createdDate: Date; unlockDate: Date };
     isUnlocked: boolean;
+    integrity: IntegrityStatus;
   }> {
     try {
-      // Get memory from localStorage
-      const memoryData = this.getLocalReference(memoryId);
+      const memoryData = await this.loadRecord(memoryId);
       if (!memoryData) {
         throw new Error('Memory not found');
       }
 
-      // Check if memory is unlocked
+      // A tampered record cannot be trusted to tell when it unlocks
+      const integrity = await verifyIntegrity(memoryData, { checkAudio: true });
+      if (integrity === 'tampered') {
+        throw new Error('Memory failed integrity verification');
+      }
+      if (integrity === 'unsigned') {
+        console.warn(`Memory ${memoryId} has an unsigned seal, which anyone able to edit it could have recomputed`);
+      }
+      // An unsigned seal can be recomputed by anyone, the author's signature cannot
+      if (await verifyAuthorship(memoryData, { checkAudio: true }) === 'invalid') {
+        throw new Error('Memory failed authorship verification');
+      }
+
       const unlockDate = new Date(memoryData.unlockDate);
-      const isUnlocked = new Date() >= unlockDate;
-      
-      if (!isUnlocked) {
+      if (!await this.isOpen(memoryData)) {
         throw new Error('Memory is still time-locked');
       }
+      if (memoryData.recurrence) {
+        await this.recordOccurrence(memoryData);
+      }
 
-      // Convert base64 back to blob
-      const audioBlob = await this.base64ToBlob(memoryData.audioData, 'audio/wav');
+      // Only now that the lock has passed is the key taken from the key store
+      const key = await this.getMemoryKey(memoryData);
+      const metadata = await decryptJson<MemoryMetadata>(key, memoryData.metadata, `${memoryId}:metadata`);
+      const decrypted = await decryptBlob(key, memoryData.audio, `${memoryId}:audio`, metadata.mimeType ?? '');
+      const audioBlob = metadata.mimeType
+        ? decrypted
+        : new Blob([decrypted], { type: sniffAudioMimeType(new Uint8Array(await decrypted.slice(0, 12).arrayBuffer())) });
 
       return {
         audioBlob,
         metadata: {
-          title: memoryData.title,
-          note: memoryData.note,
-          emotion: memoryData.emotion,
+          ...metadata,
           createdDate: new Date(memoryData.createdDate),
           unlockDate: unlockDate
         },
-        isUnlocked: true
+        isUnlocked: true,
+        integrity
       };
 
     } catch (error) {
@@ -95,28 +447,435 @@ export class ChronoLockStorage {
   }
 
   /**
-   * Get user's memories (metadata only)
+   * Solve a memory's time-lock puzzle in a Web Worker, saving progress so a later call
+   * resumes where this one stopped. Resolves once the key is recovered and stored.
+   */
+  async solvePuzzle(
+    memoryId: string,
+    onProgress?: (status: PuzzleStatus) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const memoryData = await this.loadRecord(memoryId);
+    const puzzle = memoryData?.puzzle;
+    if (!puzzle) {
+      throw new Error('Memory is not locked by a time-lock puzzle');
+    }
+    if (this.keyStore.getKey(memoryId)) return;
+
+    const progress = this.puzzleProgress.get(memoryId) ?? { squaringsDone: 0, value: puzzle.base };
+    const report = (squaringsDone: number) => onProgress?.({
+      squarings: puzzle.squarings,
+      squaringsDone,
+      calibratedRate: puzzle.calibratedRate
+    });
+    report(progress.squaringsDone);
+
+    const solution = await new Promise<string>((resolve, reject) => {
+      const worker = new Worker(new URL('./puzzleWorker.ts', import.meta.url), { type: 'module' });
+      const stop = () => {
+        worker.terminate();
+        reject(new Error('Puzzle solving stopped'));
+      };
+      if (signal?.aborted) return stop();
+      signal?.addEventListener('abort', stop, { once: true });
+
+      worker.onmessage = (event: MessageEvent<PuzzleWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          this.puzzleProgress.set(memoryId, { squaringsDone: message.squaringsDone, value: message.value });
+          report(message.squaringsDone);
+        } else if (message.type === 'solved') {
+          signal?.removeEventListener('abort', stop);
+          worker.terminate();
+          resolve(message.value);
+        }
+      };
+      worker.onerror = event => {
+        signal?.removeEventListener('abort', stop);
+        worker.terminate();
+        reject(new Error(`Puzzle solver failed: ${event.message}`));
+      };
+      worker.postMessage({
+        type: 'solve',
+        modulus: puzzle.modulus,
+        squarings: puzzle.squarings,
+        progress
+      } satisfies PuzzleWorkerRequest);
+    });
+
+    const material = await openPuzzle(puzzle, solution, memoryId).catch(() => {
+      // A corrupted checkpoint can only be recovered by starting over
+      this.puzzleProgress.delete(memoryId);
+      throw new Error('Puzzle solution did not open the key; progress was reset');
+    });
+    this.keyStore.setKey(memoryId, material);
+    this.puzzleProgress.delete(memoryId);
+    report(puzzle.squarings);
+    this.changeFeed.publish({ type: 'updated', memoryIds: [memoryId] });
+  }
+
+  /**
+   * Calibrate and find the primes of a new puzzle in a Web Worker, which takes
+   * seconds the page would otherwise freeze for
+   */
+  private setUpPuzzleInWorker(seconds: number): Promise<PuzzleSetup> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./puzzleWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<PuzzleWorkerMessage>) => {
+        if (event.data.type !== 'setUp') return;
+        worker.terminate();
+        resolve(event.data.setup);
+      };
+      worker.onerror = event => {
+        worker.terminate();
+        reject(new Error(`Puzzle setup failed: ${event.message}`));
+      };
+      worker.postMessage({ type: 'setUp', seconds } satisfies PuzzleWorkerRequest);
+    });
+  }
+
+  /**
+   * Count a listen of an open memory, which listen-based unlock conditions of others depend on
+   */
+  async recordListen(memoryId: string): Promise<void> {
+    const memoryData = await this.loadRecord(memoryId);
+    if (!memoryData) {
+      throw new Error('Memory not found');
+    }
+    if (!await this.isOpen(memoryData)) {
+      throw new Error('Memory is still time-locked');
+    }
+    await this.backend.update(memoryId, { listens: (memoryData.listens ?? 0) + 1 });
+    this.changeFeed.publish({ type: 'updated', memoryIds: [memoryId] });
+  }
+
+  /**
+   * Permanently delete a voice memory together with its key
+   */
+  async deleteVoiceMemory(memoryId: string): Promise<void> {
+    try {
+      await this.migrateLocalStorage();
+      await this.backend.delete(memoryId);
+      this.keyStore.deleteKey(memoryId);
+      this.puzzleProgress.delete(memoryId);
+      this.changeFeed.publish({ type: 'deleted', memoryIds: [memoryId] });
+    } catch (error) {
+      console.error('Failed to delete voice memory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a voice memory. A lock can be extended but never shortened, and
+   * the encrypted metadata can only be edited once the memory is unlocked,
+   * and never on an anchored memory.
    */
-  async getUserMemories(userAddress: string): Promise<any[]> {
+  async updateVoiceMemory(memoryId: string, updates: MemoryUpdate, signBytes?: BytesSigner): Promise<void> {
     try {
-      const allMemories = this.getAllLocalReferences()
-        .filter(ref => ref.userAddress === userAddress);
-
-      const currentTime = new Date();
-      
-      const memories = allMemories.map(memory => ({
-        id: memory.id,
-        title: memory.title,
-        note: memory.note,
-        unlockDate: new Date(memory.unlockDate),
-        createdDate: new Date(memory.createdDate),
-        emotion: memory.emotion,
-        duration: memory.duration || 0,
-        isLocked: currentTime < new Date(memory.unlockDate),
-        // Create audio URL for unlocked memories
-        audioUrl: currentTime >= new Date(memory.unlockDate) 
-          ? this.createAudioUrl(memory.audioData) 
-          : undefined
+      const memoryData = await this.loadRecord(memoryId);
+      if (!memoryData) {
+        throw new Error('Memory not found');
+      }
+
+      // The on-chain box and content hash are immutable
+      if (memoryData.timeLock) {
+        throw new Error('Memories locked on chain cannot be changed');
+      }
+
+      // Changes are only accepted on an intact record, and must be re-signed if it was signed
+      if (await verifyIntegrity(memoryData) === 'tampered') {
+        throw new Error('Memory failed integrity verification');
+      }
+      if ((memoryData.integrity?.signature || memoryData.authorship) && !signBytes) {
+        throw new Error('Changing a signed memory requires the owning wallet');
+      }
+
+      const currentUnlockDate = new Date(memoryData.unlockDate);
+      if (updates.unlockDate && memoryData.puzzle) {
+        throw new Error('A puzzle-locked memory opens when its puzzle is solved and cannot be rescheduled');
+      }
+      if (updates.unlockDate && memoryData.checkIn) {
+        throw new Error('A check-in switch is postponed by checking in, not by rescheduling');
+      }
+      if (updates.unlockDate && updates.unlockDate < currentUnlockDate) {
+        throw new Error('The unlock date can only be moved later');
+      }
+
+      const changes: Partial<StoredMemoryRecord> = {};
+      if (updates.unlockDate) {
+        changes.unlockDate = updates.unlockDate.toISOString();
+      }
+      if (updates.unlockTimeZone) {
+        if (!isValidTimeZone(updates.unlockTimeZone)) {
+          throw new Error(`Unknown timezone ${updates.unlockTimeZone}`);
+        }
+        changes.unlockTimeZone = updates.unlockTimeZone;
+      }
+
+      const { title, note, emotion } = updates;
+      if (title !== undefined || note !== undefined || emotion !== undefined) {
+        // The anchored content hash covers the encrypted metadata, so the anchor would never match again
+        if (memoryData.anchor) {
+          throw new Error('Memories anchored on chain keep the title, note and emotion they were anchored with');
+        }
+        if (!await this.isOpen(memoryData)) {
+          throw new Error('Memory is still time-locked');
+        }
+        const key = await this.getMemoryKey(memoryData);
+        const metadata = await decryptJson<MemoryMetadata>(key, memoryData.metadata, `${memoryId}:metadata`);
+        changes.metadata = await encryptJson(
+          key,
+          {
+            ...metadata,
+            title: title ?? metadata.title,
+            note: note ?? metadata.note,
+            emotion: emotion ?? metadata.emotion
+          },
+          `${memoryId}:metadata`
+        );
+        // The author vouches for the new title and note as well
+        if (memoryData.authorship && signBytes) {
+          changes.authorship = await signAuthorship({ ...memoryData, ...changes }, signBytes);
+        }
+      }
+
+      changes.integrity = await sealIntegrity({ ...memoryData, ...changes }, signBytes);
+
+      await this.backend.update(memoryId, changes);
+      this.changeFeed.publish({ type: 'updated', memoryIds: [memoryId] });
+    } catch (error) {
+      console.error('Failed to update voice memory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset the check-in switches of every memory `userAddress` owns that has not lapsed yet,
+   * pushing each deadline a full interval past trusted now. Lapsed switches stay open.
+   * Returns the ids of the memories checked in.
+   */
+  async checkIn(userAddress: string, signBytes?: BytesSigner): Promise<string[]> {
+    const records = (await this.loadRecords({ userAddress })).filter(record => record.checkIn);
+    if (records.length === 0) return [];
+
+    const now = await this.timeSource.now();
+    const checkedIn: string[] = [];
+    for (const listed of records) {
+      if (now >= new Date(listed.unlockDate)) continue;
+      // Resealing hashes the audio, which listings may leave out
+      const record = await this.withAudio(listed);
+      if (await verifyIntegrity(record) === 'tampered') {
+        console.warn(`Not checking in to tampered memory ${record.id}`);
+        continue;
+      }
+      if (record.integrity?.signature && !signBytes) {
+        throw new Error('Checking in to a signed memory requires the owning wallet');
+      }
+
+      const changes: Partial<StoredMemoryRecord> = {
+        unlockDate: new Date(now.getTime() + record.checkIn!.intervalSeconds * 1000).toISOString(),
+        checkIn: { ...record.checkIn!, lastCheckIn: now.toISOString() }
+      };
+      changes.integrity = await sealIntegrity({ ...record, ...changes }, signBytes);
+      await this.backend.update(record.id, changes);
+      checkedIn.push(record.id);
+    }
+
+    if (checkedIn.length > 0) {
+      this.changeFeed.publish({ type: 'updated', memoryIds: checkedIn });
+    }
+    return checkedIn;
+  }
+
+  /**
+   * Get user's memories (metadata only, audio is never read)
+   */
+  async getUserMemories(userAddress: string): Promise<UserMemory[]> {
+    return this.listMemories({ userAddress });
+  }
+
+  /**
+   * Gifts other accounts have addressed to `recipientAddress`
+   */
+  async getInboxMemories(recipientAddress: string): Promise<UserMemory[]> {
+    return this.listMemories({ recipient: recipientAddress });
+  }
+
+  /**
+   * Unwrap a gift's key with the recipient's account mnemonic once it has unlocked,
+   * keeping the key on this device so the gift opens like any other memory
+   */
+  async claimGift(memoryId: string, mnemonic: string): Promise<void> {
+    const memoryData = await this.loadRecord(memoryId);
+    if (!memoryData?.recipient) {
+      throw new Error('Memory is not a gift');
+    }
+    if (await verifyIntegrity(memoryData) === 'tampered') {
+      throw new Error('Memory failed integrity verification');
+    }
+    if (!await this.isOpen(memoryData)) {
+      throw new Error('Memory is still time-locked');
+    }
+
+    const material = await openWithMnemonic(memoryData.recipient, memoryId, mnemonic);
+    this.keyStore.setKey(memoryId, material);
+    this.changeFeed.publish({ type: 'updated', memoryIds: [memoryId] });
+  }
+
+  /**
+   * Memories that `trusteeAddress` is one of the trustees of
+   */
+  async getTrusteeMemories(trusteeAddress: string): Promise<UserMemory[]> {
+    return this.listMemories({ trustee: trusteeAddress });
+  }
+
+  /**
+   * Release a trustee's share of a memory key, unwrapped with that trustee's mnemonic.
+   * Once enough trustees have approved, any device holding the record can rebuild the key.
+   */
+  async approveAsTrustee(memoryId: string, mnemonic: string): Promise<void> {
+    const memoryData = await this.loadRecord(memoryId);
+    if (!memoryData?.trustees) {
+      throw new Error('Memory has no trustees');
+    }
+    if (await verifyIntegrity(memoryData) === 'tampered') {
+      throw new Error('Memory failed integrity verification');
+    }
+
+    const address = accountFromMnemonic(mnemonic).addr.toString();
+    const share = memoryData.trustees.shares.find(candidate => candidate.address === address);
+    if (!share) {
+      throw new Error('This account is not a trustee of the memory');
+    }
+    const shareBytes = await openWithMnemonic(share.envelope, `${memoryId}:trustee`, mnemonic);
+
+    await this.backend.update(memoryId, {
+      trusteeApprovals: { ...memoryData.trusteeApprovals, [share.index]: bytesToBase64(shareBytes) }
+    });
+    this.changeFeed.publish({ type: 'updated', memoryIds: [memoryId] });
+  }
+
+  /**
+   * Check a memory's transaction anchor against the chain. Undefined when it has none.
+   */
+  async checkAnchor(memoryId: string): Promise<AnchorStatus | undefined> {
+    const memoryData = await this.loadRecord(memoryId);
+    if (!memoryData?.anchor) return undefined;
+
+    const record = await this.withAudio(memoryData);
+    return verifyAnchor(
+      this.indexer,
+      memoryData.anchor,
+      { memoryId, contentHash: await this.computeContentHash(record), unlockDate: new Date(record.unlockDate) },
+      record.userAddress
+    );
+  }
+
+  private async listMemories(query: MemoryQuery): Promise<UserMemory[]> {
+    try {
+      const allMemories = await this.loadRecords(query);
+
+      // Without trusted time everything stays locked, but is still listed
+      let currentTime: Date | null = null;
+      try {
+        currentTime = await this.timeSource.now();
+      } catch (error) {
+        console.warn('Listing memories as locked:', error);
+      }
+
+      const conditionContext = this.createConditionContext(allMemories, currentTime);
+      const memories = await Promise.all(allMemories.map(async (memory): Promise<UserMemory> => {
+        const unlockDate = new Date(memory.unlockDate);
+        // Seals without an audio hash are checked against the audio itself
+        const integrity = await verifyIntegrity(memory.integrity?.audioHash ? memory : await this.withAudio(memory));
+        const authorship = await verifyAuthorship(memory);
+        const hasKey = Boolean(this.keyStore.getKey(memory.id));
+        const condition = memory.unlockCondition && await evaluateCondition(memory.unlockCondition, conditionContext);
+        const recurrence = memory.recurrence && currentTime
+          ? getRecurrenceState(memory.recurrence, unlockDate, memory.unlockTimeZone, currentTime)
+          : undefined;
+        // A tampered unlock date must not open a memory early
+        const isLocked = integrity === 'tampered' || (memory.puzzle
+          ? !hasKey
+          : !currentTime || currentTime < unlockDate || (memory.recurrence !== undefined && !recurrence?.isOpen)) ||
+          (condition ? !condition.met : false);
+        const history = memory.occurrences ?? [];
+        const base = {
+          id: memory.id,
+          userAddress: memory.userAddress,
+          unlockDate,
+          unlockTimeZone: memory.unlockTimeZone,
+          createdDate: new Date(memory.createdDate),
+          duration: memory.duration || 0,
+          isLocked,
+          cid: memory.cid?.manifest,
+          integrity,
+          authorship,
+          anchor: memory.anchor,
+          puzzle: memory.puzzle && {
+            squarings: memory.puzzle.squarings,
+            squaringsDone: hasKey
+              ? memory.puzzle.squarings
+              : this.puzzleProgress.get(memory.id)?.squaringsDone ?? 0,
+            calibratedRate: memory.puzzle.calibratedRate
+          },
+          recipient: memory.recipient?.address,
+          trustees: memory.trustees && {
+            threshold: memory.trustees.threshold,
+            addresses: memory.trustees.shares.map(share => share.address),
+            approvedBy: memory.trustees.shares
+              .filter(share => memory.trusteeApprovals?.[share.index])
+              .map(share => share.address)
+          },
+          checkIn: memory.checkIn && {
+            intervalSeconds: memory.checkIn.intervalSeconds,
+            lastCheckIn: new Date(memory.checkIn.lastCheckIn)
+          },
+          unlockCondition: memory.unlockCondition,
+          pendingCondition: condition?.pending,
+          listens: memory.listens ?? 0,
+          recurrence: memory.recurrence && {
+            ...memory.recurrence,
+            nextOpening: recurrence?.nextOpening,
+            windowEnds: recurrence?.windowEnds,
+            history: history.map(occurrence => new Date(occurrence))
+          }
+        };
+
+        // Locked memories are listed without ever touching their key
+        if (isLocked) {
+          return { ...base, ...SEALED_METADATA };
+        }
+
+        // An unlocked gift still needs the recipient to unwrap its key here
+        if (memory.recipient && !hasKey) {
+          return { ...base, ...SEALED_METADATA, isLocked: true, awaitingKey: true };
+        }
+
+        // Trustee memories wait for their quorum even after the unlock date
+        if (memory.trustees && !hasKey &&
+          Object.keys(memory.trusteeApprovals ?? {}).length < memory.trustees.threshold) {
+          return { ...base, ...SEALED_METADATA, isLocked: true };
+        }
+
+        let key: CryptoKey;
+        try {
+          key = await this.getMemoryKey(memory, false);
+        } catch (error) {
+          // The chain may still disagree with the local clock
+          console.warn(`Memory ${memory.id} could not be unlocked:`, error);
+          return { ...base, ...SEALED_METADATA, isLocked: true };
+        }
+        const metadata = await decryptJson<MemoryMetadata>(key, memory.metadata, `${memory.id}:metadata`);
+
+        // The open occurrence is shown in the history, which only retrieveVoiceMemory writes
+        const openedAt = recurrence?.openedAt?.toISOString();
+        if (openedAt && !history.includes(openedAt)) {
+          base.recurrence!.history.push(new Date(openedAt));
+        }
+
+        // Audio is left encrypted until it is requested through retrieveVoiceMemory
+        return { ...base, ...metadata };
       }));
 
       return memories.sort((a, b) => 
@@ -129,51 +888,318 @@ export class ChronoLockStorage {
     }
   }
 
+  /**
+   * Package a wallet's memories, still encrypted, into a single archive file
+   */
+  async exportArchive(userAddress: string, passphrase: string): Promise<Blob> {
+    const records = await Promise.all((await this.loadRecords({ userAddress })).map(record => this.withAudio(record)));
+    const keys: Record<string, Uint8Array> = {};
+    for (const record of records) {
+      const material = this.keyStore.getKey(record.id);
+      if (material) {
+        keys[record.id] = material;
+      } else if (!record.puzzle && !record.recipient && !record.trustees) {
+        // Unsolved puzzles and sent gifts travel without a key; their records carry it wrapped
+        throw new Error(`Memory ${record.id} has no key on this device`);
+      }
+    }
+    return buildArchive(userAddress, records, keys, passphrase);
+  }
+
+  /**
+   * Package one gift for its recipient: the record with its key wrapped for them,
+   * and none of the sender's keys or other memories
+   */
+  async exportGift(memoryId: string): Promise<Blob> {
+    const record = await this.loadRecord(memoryId);
+    if (!record?.recipient) {
+      throw new Error('Memory is not a gift');
+    }
+    // How often the sender played it stays here, as does where they keep the manifest.
+    // The audio CID is sealed, so it travels with the gift.
+    return buildGiftArchive({
+      ...record,
+      cid: record.cid && { audio: record.cid.audio },
+      listens: undefined,
+      occurrences: undefined
+    });
+  }
+
+  /**
+   * Import an archive created by `exportArchive`, or a gift file from `exportGift`, which
+   * needs no passphrase. Memories keep their original unlock dates, and ids that already
+   * exist here are skipped apart from any trustee approvals they lack.
+   */
+  async importArchive(file: Blob, passphrase?: string): Promise<ArchiveImportResult> {
+    await this.migrateLocalStorage();
+    const { records, keys } = await readArchive(file, passphrase);
+
+    const result: ArchiveImportResult = { imported: [], skipped: [], approvalsMerged: [] };
+    for (const record of records) {
+      const existing = await this.loadRecord(record.id);
+      if (existing || await this.backend.get(record.id)) {
+        result.skipped.push(record.id);
+        if (existing && await this.mergeTrusteeApprovals(existing, record)) {
+          result.approvalsMerged.push(record.id);
+        }
+        continue;
+      }
+      if (keys[record.id]) {
+        this.keyStore.setKey(record.id, keys[record.id]);
+      }
+      await this.backend.put(record);
+      result.imported.push(record.id);
+    }
+    if (result.imported.length > 0) {
+      this.changeFeed.publish({ type: 'imported', memoryIds: result.imported });
+    }
+    if (result.approvalsMerged.length > 0) {
+      this.changeFeed.publish({ type: 'updated', memoryIds: result.approvalsMerged });
+    }
+    return result;
+  }
+
+  /**
+   * Records that failed migration or validation and are excluded from listings
+   */
+  getQuarantinedRecords(): QuarantinedRecord[] {
+    return this.quarantine.list();
+  }
+
   // Private helper methods
-  private async blobToBase64(blob: Blob): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove the data URL prefix (e.g., "data:audio/wav;base64,")
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
+  private async loadRecord(memoryId: string): Promise<StoredMemoryRecord | undefined> {
+    await this.migrateLocalStorage();
+    const raw = await this.backend.get(memoryId);
+    const record = raw ? await this.upgradeRecord(raw) : undefined;
+    return record && this.isOnNetwork(record) ? record : undefined;
+  }
+
+  private async loadRecords(query: MemoryQuery): Promise<StoredMemoryRecord[]> {
+    await this.migrateLocalStorage();
+    const raw = await this.backend.list(query);
+    const records = await Promise.all(raw.map(record => this.upgradeRecord(record)));
+    return records.filter((record): record is StoredMemoryRecord => record !== undefined && this.isOnNetwork(record));
+  }
+
+  /**
+   * Add the approvals another device collected for the same trustee memory, so trustees
+   * can approve apart and the shares still meet. Returns whether any were added.
+   */
+  private async mergeTrusteeApprovals(existing: StoredMemoryRecord, incoming: StoredMemoryRecord): Promise<boolean> {
+    if (!existing.trustees || !incoming.trusteeApprovals) return false;
+    // Shares only count for the split this device holds
+    const indexes = new Set(existing.trustees.shares.map(share => String(share.index)));
+    const added = Object.entries(incoming.trusteeApprovals)
+      .filter(([index]) => indexes.has(index) && !existing.trusteeApprovals?.[index]);
+    if (added.length === 0) return false;
+
+    await this.backend.update(existing.id, {
+      trusteeApprovals: { ...existing.trusteeApprovals, ...Object.fromEntries(added) }
     });
+    return true;
   }
 
-  private async base64ToBlob(base64: string, mimeType: string): Promise<Blob> {
-    const byteCharacters = atob(base64);
-    const byteNumbers = new Array(byteCharacters.length);
-    
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+  /**
+   * Backends may list records without their audio, as IPFS does; `get` fetches it
+   */
+  private async withAudio(record: StoredMemoryRecord): Promise<StoredMemoryRecord> {
+    if (!record.cid) return record;
+    const full = await this.backend.get(record.id);
+    return full ? { ...record, audio: full.audio } : record;
+  }
+
+  // Memories of other networks stay in the backend but are treated as absent
+  private isOnNetwork(record: StoredMemoryRecord): boolean {
+    return (record.network ?? LEGACY_NETWORK) === this.network.id;
+  }
+
+  /**
+   * Bring a backend record up to the current schema, writing the upgrade back.
+   * Records that cannot be upgraded are quarantined and treated as absent.
+   */
+  private async upgradeRecord(raw: unknown): Promise<StoredMemoryRecord | undefined> {
+    const result = await migrateRecord(raw, { keyStore: this.keyStore });
+    if (!result.ok) {
+      const id = (raw as { id?: unknown })?.id;
+      console.warn('Quarantining invalid memory record:', result.reason);
+      this.quarantine.add({ id: typeof id === 'string' ? id : null, reason: result.reason });
+      return undefined;
     }
-    
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: mimeType });
+    if (result.migrated) {
+      await this.backend.put(result.record);
+    }
+    return result.record;
   }
 
-  private createAudioUrl(audioBase64: string): string {
-    const byteCharacters = atob(audioBase64);
-    const byteNumbers = new Array(byteCharacters.length);
-    
-    for (let i = 0; i < byteCharacters.length; i++) {
-      byteNumbers[i] = byteCharacters.charCodeAt(i);
+  /**
+   * Puzzle memories open once their key has been recovered; all others by trusted time,
+   * which rejects when unavailable. Any unlock condition must hold as well.
+   */
+  private async isOpen(memory: StoredMemoryRecord): Promise<boolean> {
+    const isDue = memory.puzzle
+      ? Boolean(this.keyStore.getKey(memory.id))
+      : await this.isDueByTime(memory);
+    if (!isDue || !memory.unlockCondition) {
+      return isDue;
     }
-    
-    const byteArray = new Uint8Array(byteNumbers);
-    const blob = new Blob([byteArray], { type: 'audio/wav' });
-    return URL.createObjectURL(blob);
+    const { met } = await evaluateCondition(memory.unlockCondition, this.createConditionContext([]));
+    return met;
+  }
+
+  /**
+   * Past the unlock date by trusted time and, for recurring memories, inside a listening window
+   */
+  private async isDueByTime(memory: StoredMemoryRecord): Promise<boolean> {
+    const now = await this.timeSource.now();
+    const unlockDate = new Date(memory.unlockDate);
+    if (!memory.recurrence) {
+      return now >= unlockDate;
+    }
+    return getRecurrenceState(memory.recurrence, unlockDate, memory.unlockTimeZone, now).isOpen;
+  }
+
+  /**
+   * Add the occurrence a recurring memory is open for to its history, once
+   */
+  private async recordOccurrence(memory: StoredMemoryRecord): Promise<void> {
+    const now = await this.timeSource.now();
+    const { openedAt } = getRecurrenceState(memory.recurrence!, new Date(memory.unlockDate), memory.unlockTimeZone, now);
+    const history = memory.occurrences ?? [];
+    if (openedAt && !history.includes(openedAt.toISOString())) {
+      await this.backend.update(memory.id, { occurrences: [...history, openedAt.toISOString()] });
+      this.changeFeed.publish({ type: 'updated', memoryIds: [memory.id] });
+    }
+  }
+
+  /**
+   * Answers for unlock conditions, fetching time and the round at most once.
+   * Listen counts are read from `records` where possible, saving a backend read each.
+   */
+  private createConditionContext(records: StoredMemoryRecord[], currentTime?: Date | null): ConditionContext {
+    let now: Promise<Date | null> | undefined = currentTime !== undefined ? Promise.resolve(currentTime) : undefined;
+    let round: Promise<number | null> | undefined;
+    return {
+      now: () => (now ??= this.timeSource.now().catch(() => null)),
+      round: () => (round ??= getLatestRound(this.algod).catch(error => {
+        console.warn('Current round is unavailable:', error);
+        return null;
+      })),
+      listens: async memoryId => {
+        const record = records.find(candidate => candidate.id === memoryId) ?? await this.loadRecord(memoryId);
+        return record?.listens ?? 0;
+      }
+    };
+  }
+
+  /**
+   * Listings skip `verifyContent`, since checking the on-chain hash means reading the audio
+   */
+  private async getMemoryKey(memory: StoredMemoryRecord, verifyContent = true): Promise<CryptoKey> {
+    if (memory.timeLock) {
+      if (!this.timeLock || this.timeLock.appId.toString() !== memory.timeLock.appId) {
+        throw new Error(`Time-lock application ${memory.timeLock.appId} is not configured`);
+      }
+      const material = await this.timeLock.releaseKey(
+        memory.id,
+        () => this.keyStore.getKey(memory.id),
+        verifyContent ? await this.computeContentHash(memory) : undefined
+      );
+      return deriveMemoryKey(material, memory.id);
+    }
+
+    const material = this.keyStore.getKey(memory.id) ?? await this.recoverTrusteeKey(memory);
+    if (!material) {
+      throw new Error(memory.trustees ? 'Not enough trustees have approved yet' : 'Memory key not found');
+    }
+    return deriveMemoryKey(material, memory.id);
+  }
+
+  /**
+   * Rebuild a trustee memory's key from the released shares and keep it once it
+   * proves itself by decrypting the metadata
+   */
+  private async recoverTrusteeKey(memory: StoredMemoryRecord): Promise<Uint8Array | undefined> {
+    const approvals = Object.entries(memory.trusteeApprovals ?? {});
+    if (!memory.trustees || approvals.length < memory.trustees.threshold) {
+      return undefined;
+    }
+
+    const material = combineShares(
+      approvals.map(([index, share]) => ({ index: Number(index), bytes: base64ToBytes(share) }))
+    );
+    try {
+      await decryptJson(await deriveMemoryKey(material, memory.id), memory.metadata, `${memory.id}:metadata`);
+    } catch {
+      console.warn(`Trustee shares of memory ${memory.id} do not rebuild its key`);
+      return undefined;
+    }
+    this.keyStore.setKey(memory.id, material);
+    return material;
+  }
+
+  /**
+   * SHA-256 over the encrypted audio and metadata, as registered on chain
+   */
+  private async computeContentHash(memory: StoredMemoryRecord): Promise<Uint8Array> {
+    const audio = new Uint8Array(await memory.audio.ciphertext.arrayBuffer());
+    const metadata = base64ToBytes(memory.metadata.ciphertext);
+    const content = new Uint8Array(audio.length + metadata.length);
+    content.set(audio);
+    content.set(metadata, audio.length);
+    return sha256(content);
+  }
+
+  /**
+   * Move records from the old `chronolock_memories` localStorage array into the backend,
+   * encrypting any written before encryption was introduced
+   */
+  private migrateLocalStorage(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.importLocalStorage().catch(error => {
+        // Leave the localStorage copy in place so the next load can retry
+        this.migration = null;
+        throw error;
+      });
+    }
+    return this.migration;
+  }
+
+  private async importLocalStorage(): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    let memories: unknown[];
+    try {
+      memories = JSON.parse(stored);
+    } catch {
+      this.quarantine.add({ id: null, reason: 'Unreadable localStorage archive', record: stored });
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    for (const memory of memories) {
+      const result = await migrateRecord(memory, { keyStore: this.keyStore });
+      if (result.ok) {
+        await this.backend.put(result.record);
+      } else {
+        const id = (memory as { id?: unknown })?.id;
+        this.quarantine.add({ id: typeof id === 'string' ? id : null, reason: result.reason, record: memory });
+      }
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   }
 
   private async getAudioDuration(audioBlob: Blob): Promise<number> {
+    // Decoding is exact; MediaRecorder WebM files report an Infinity duration through <audio>
+    try {
+      return (await decodeAudio(audioBlob)).duration;
+    } catch {
+      // Fall back to whatever the media element reports
+    }
     return new Promise((resolve) => {
       const audio = new Audio();
       audio.onloadedmetadata = () => {
-        resolve(audio.duration);
+        resolve(Number.isFinite(audio.duration) ? audio.duration : 0);
         URL.revokeObjectURL(audio.src);
       };
       audio.onerror = () => resolve(0);
@@ -184,24 +1210,4 @@ export class ChronoLockStorage {
   private generateMemoryId(): string {
     return `memory_${Date.now()}_${Math.random().toString(36).substring(2)}`;
   }
-
-  private storeLocalReference(memoryData: any): void {
-    const memories = this.getAllLocalReferences();
-    memories.push(memoryData);
-    localStorage.setItem('chronolock_memories', JSON.stringify(memories));
-  }
-
-  private getLocalReference(memoryId: string): any {
-    const memories = this.getAllLocalReferences();
-    return memories.find(memory => memory.id === memoryId);
-  }
-
-  private getAllLocalReferences(): any[] {
-    try {
-      const stored = localStorage.getItem('chronolock_memories');
-      return stored ? JSON.parse(stored) : [];
-    } catch {
-      return [];
-    }
-  }
-}
\ No newline at end of file
+}
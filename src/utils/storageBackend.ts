@@ -0,0 +1,181 @@
+import { base64ToBytes, bytesToBase64, EncryptedPayload } from './crypto';
+import { IndexedDbBackend } from './indexedDb';
+import { IpfsBackend, IpfsClient } from './ipfs';
+import type { StoredMemoryRecord } from './schema';
+
+export interface MemoryQuery {
+  userAddress?: string;
+  // Gifts addressed to this account
+  recipient?: string;
+  // Memories this account is a trustee of
+  trustee?: string;
+}
+
+/**
+ * Contract every persistence layer behind ChronoLockStorage implements.
+ * Backends only ever see encrypted records. `list` may leave the audio of
+ * remote records unloaded (an empty Blob); `get` always returns it in full.
+ */
+export interface StorageBackend {
+  put(record: StoredMemoryRecord): Promise<void>;
+  get(memoryId: string): Promise<StoredMemoryRecord | undefined>;
+  list(query?: MemoryQuery): Promise<StoredMemoryRecord[]>;
+  update(memoryId: string, changes: Partial<Omit<StoredMemoryRecord, 'id'>>): Promise<StoredMemoryRecord>;
+  delete(memoryId: string): Promise<void>;
+  // Content-addressed backends name the address `put` will store the audio under,
+  // so that it can be sealed with the record
+  addressAudio?(audio: Blob): Promise<string>;
+}
+
+export type StorageBackendKind = 'memory' | 'localStorage' | 'indexedDB' | 'ipfs';
+
+export function matchesQuery(record: StoredMemoryRecord, query: MemoryQuery = {}): boolean {
+  return (!query.userAddress || record.userAddress === query.userAddress) &&
+    (!query.recipient || record.recipient?.address === query.recipient) &&
+    (!query.trustee || Boolean(record.trustees?.shares.some(share => share.address === query.trustee)));
+}
+
+/**
+ * Volatile backend, used for tests and for sessions that should leave nothing behind
+ */
+export class InMemoryBackend implements StorageBackend {
+  private records = new Map<string, StoredMemoryRecord>();
+
+  async put(record: StoredMemoryRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async get(memoryId: string): Promise<StoredMemoryRecord | undefined> {
+    return this.records.get(memoryId);
+  }
+
+  async list(query?: MemoryQuery): Promise<StoredMemoryRecord[]> {
+    return Array.from(this.records.values()).filter(record => matchesQuery(record, query));
+  }
+
+  async update(memoryId: string, changes: Partial<Omit<StoredMemoryRecord, 'id'>>): Promise<StoredMemoryRecord> {
+    const record = this.records.get(memoryId);
+    if (!record) {
+      throw new Error('Memory not found');
+    }
+    const updated = { ...record, ...changes };
+    this.records.set(memoryId, updated);
+    return updated;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    this.records.delete(memoryId);
+  }
+}
+
+// localStorage cannot hold Blobs, so audio ciphertext is kept as base64
+interface SerializedMemory extends Omit<StoredMemoryRecord, 'audio'> {
+  audio: EncryptedPayload;
+}
+
+/**
+ * Single JSON array in localStorage. Subject to the ~5 MB origin quota.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  constructor(private storageKey = 'chronolock_records') {}
+
+  async put(record: StoredMemoryRecord): Promise<void> {
+    const records = this.readAll().filter(stored => stored.id !== record.id);
+    records.push(await this.serialize(record));
+    this.writeAll(records);
+  }
+
+  async get(memoryId: string): Promise<StoredMemoryRecord | undefined> {
+    const record = this.readAll().find(stored => stored.id === memoryId);
+    return record ? this.deserialize(record) : undefined;
+  }
+
+  async list(query?: MemoryQuery): Promise<StoredMemoryRecord[]> {
+    return this.readAll()
+      .map(record => this.deserialize(record))
+      .filter(record => matchesQuery(record, query));
+  }
+
+  async update(memoryId: string, changes: Partial<Omit<StoredMemoryRecord, 'id'>>): Promise<StoredMemoryRecord> {
+    const record = await this.get(memoryId);
+    if (!record) {
+      throw new Error('Memory not found');
+    }
+    const updated = { ...record, ...changes };
+    await this.put(updated);
+    return updated;
+  }
+
+  async delete(memoryId: string): Promise<void> {
+    this.writeAll(this.readAll().filter(stored => stored.id !== memoryId));
+  }
+
+  private async serialize(record: StoredMemoryRecord): Promise<SerializedMemory> {
+    return {
+      ...record,
+      audio: {
+        iv: record.audio.iv,
+        ciphertext: bytesToBase64(new Uint8Array(await record.audio.ciphertext.arrayBuffer()))
+      }
+    };
+  }
+
+  private deserialize(record: SerializedMemory): StoredMemoryRecord {
+    return {
+      ...record,
+      audio: {
+        iv: record.audio.iv,
+        ciphertext: new Blob([base64ToBytes(record.audio.ciphertext)], { type: 'application/octet-stream' })
+      }
+    };
+  }
+
+  private readAll(): SerializedMemory[] {
+    const stored = localStorage.getItem(this.storageKey);
+    if (!stored) return [];
+    try {
+      return JSON.parse(stored);
+    } catch {
+      // Failing loudly keeps the next write from replacing the whole archive
+      throw new Error(`Storage key ${this.storageKey} does not hold a readable archive`);
+    }
+  }
+
+  private writeAll(records: SerializedMemory[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(records));
+  }
+}
+
+// Where each backend keeps memories, for pages to tell users
+export const BACKEND_LOCATIONS: Record<StorageBackendKind, string> = {
+  memory: 'in this tab until it closes',
+  localStorage: 'in this browser',
+  indexedDB: 'in this browser',
+  ipfs: 'on IPFS'
+};
+
+/**
+ * The backend named by `VITE_STORAGE_BACKEND`, defaulting to IndexedDB
+ */
+export function configuredBackendKind(): StorageBackendKind {
+  return import.meta.env.VITE_STORAGE_BACKEND ?? 'indexedDB';
+}
+
+/**
+ * Build the backend named by `VITE_STORAGE_BACKEND`, defaulting to IndexedDB
+ */
+export function createStorageBackend(kind: StorageBackendKind = configuredBackendKind()): StorageBackend {
+  switch (kind) {
+    case 'memory':
+      return new InMemoryBackend();
+    case 'localStorage':
+      return new LocalStorageBackend();
+    case 'indexedDB':
+      return new IndexedDbBackend();
+    case 'ipfs':
+      // Endpoint comes from `VITE_IPFS_API_URL`, e.g. a local Kubo node
+      return new IpfsBackend(new IpfsClient(), new IndexedDbBackend());
+    default:
+      throw new Error(`Unknown storage backend: ${kind}`);
+  }
+}
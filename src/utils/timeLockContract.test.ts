@@ -0,0 +1,70 @@
+import algosdk from 'algosdk';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createAlgodClient, getLatestBlockTimestamp } from './algorand';
+import { NETWORKS } from './network';
+import { APP_ACCOUNT_MIN_BALANCE, TimeLockClient } from './timeLockContract';
+import { KmdWallet } from './kmd';
+import { randomBytes } from './crypto';
+
+const network = NETWORKS.localnet;
+const algod = createAlgodClient(network);
+// Needs an AlgoKit LocalNet (`algokit localnet start`); skipped without one
+const isLocalNetRunning = await algod.healthCheck().do().then(() => true, () => false);
+
+describe.skipIf(!isLocalNetRunning)('TimeLockClient on LocalNet', () => {
+  const kmd = new KmdWallet(network.kmd!);
+  const signer = kmd.signer;
+  let owner: string;
+
+  // Blocks only appear on LocalNet when a transaction is sent
+  async function produceBlock() {
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: owner,
+      receiver: owner,
+      amount: 0,
+      note: randomBytes(8),
+      suggestedParams: await algod.getTransactionParams().do()
+    });
+    const [signed] = await signer([txn], [0]);
+    await algod.sendRawTransaction(signed).do();
+    await algosdk.waitForConfirmation(algod, txn.txID(), 4);
+  }
+
+  beforeAll(async () => {
+    [owner] = await kmd.listAccounts();
+  });
+
+  afterAll(async () => {
+    await algod.setBlockOffsetTimestamp(0).do();
+  });
+
+  it('deploys, registers and releases only once chain time reaches the unlock time', async () => {
+    const client = await TimeLockClient.deploy(algod, owner, signer);
+    const appAccount = await algod.accountInformation(algosdk.getApplicationAddress(client.appId)).do();
+    expect(Number(appAccount.amount)).toBeGreaterThanOrEqual(APP_ACCOUNT_MIN_BALANCE);
+
+    const memoryId = `memory_${Date.now()}`;
+    const contentHash = randomBytes(32);
+    const unlockDate = new Date(((await getLatestBlockTimestamp(algod)) + 600) * 1000);
+    await client.register(memoryId, contentHash, unlockDate, owner, signer);
+
+    const entry = await client.getEntry(memoryId);
+    expect(entry).toMatchObject({ contentHash, unlockTimestamp: unlockDate.getTime() / 1000, owner });
+    await expect(client.register(memoryId, contentHash, unlockDate, owner, signer)).rejects.toThrow();
+
+    expect(await client.isReleased(memoryId)).toBe(false);
+    await expect(client.release(memoryId, owner, signer)).rejects.toThrow();
+    await expect(client.releaseKey(memoryId, () => contentHash, contentHash))
+      .rejects.toThrow('Memory is still time-locked on chain');
+
+    // Dev mode lets block timestamps jump ahead
+    await algod.setBlockOffsetTimestamp(3600).do();
+    await produceBlock();
+
+    expect(await client.isReleased(memoryId)).toBe(true);
+    await client.release(memoryId, owner, signer);
+    await expect(client.releaseKey(memoryId, () => contentHash, contentHash)).resolves.toEqual(contentHash);
+    await expect(client.releaseKey(memoryId, () => contentHash, randomBytes(32)))
+      .rejects.toThrow('Memory content does not match its on-chain hash');
+  }, 60000);
+});
@@ -0,0 +1,298 @@
+import algosdk from 'algosdk';
+import { createAlgodClient, getLatestBlockTimestamp } from './algorand';
+import { NetworkConfig, getNetwork } from './network';
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+/**
+ * Approval program of the ChronoLock time-lock application.
+ *
+ * Each memory gets a box keyed by its id holding `hash (32) | unlock timestamp (8) | owner (32)`.
+ * `register` creates the box once and can never overwrite it; `release` only succeeds
+ * once the latest block timestamp has reached the unlock time.
+ */
+export const TIME_LOCK_APPROVAL_PROGRAM = `#pragma version 8
+txn ApplicationID
+bz create
+
+txn OnCompletion
+int NoOp
+==
+bnz handle_noop
+
+txn OnCompletion
+int UpdateApplication
+==
+txn OnCompletion
+int DeleteApplication
+==
+||
+bnz creator_only
+err
+
+create:
+int 1
+return
+
+creator_only:
+txn Sender
+global CreatorAddress
+==
+return
+
+handle_noop:
+txna ApplicationArgs 0
+byte "register"
+==
+bnz register
+txna ApplicationArgs 0
+byte "release"
+==
+bnz release
+err
+
+register:
+txna ApplicationArgs 2
+len
+int 32
+==
+assert
+txna ApplicationArgs 3
+len
+int 8
+==
+assert
+// A lock, once written, can never be replaced
+txna ApplicationArgs 1
+box_len
+swap
+pop
+!
+assert
+txna ApplicationArgs 1
+txna ApplicationArgs 2
+txna ApplicationArgs 3
+concat
+txn Sender
+concat
+box_put
+int 1
+return
+
+release:
+txna ApplicationArgs 1
+box_get
+assert
+extract 32 8
+btoi
+global LatestTimestamp
+<=
+assert
+int 1
+return
+`;
+
+export const TIME_LOCK_CLEAR_PROGRAM = `#pragma version 8
+int 1
+return
+`;
+
+const BOX_VALUE_LENGTH = 32 + 8 + 32;
+// Every account, the application's included, must hold this before it can pay for boxes
+export const APP_ACCOUNT_MIN_BALANCE = 100_000;
+const textEncoder = new TextEncoder();
+
+export interface TimeLockEntry {
+  contentHash: Uint8Array;
+  unlockTimestamp: number;
+  owner: string;
+}
+
+/**
+ * Client for the time-lock application, built on algosdk.
+ *
+ * A public chain cannot keep a secret, so memory keys stay in the local key store;
+ * this client is what decides, from chain time rather than the browser clock,
+ * whether a key may be handed out.
+ */
+export class TimeLockClient {
+  constructor(
+    private algod: algosdk.Algodv2,
+    readonly appId: bigint
+  ) {}
+
+  /**
+   * Compile and create the application, e.g. on an AlgoKit LocalNet, and fund its
+   * account with the minimum balance so the first `register` can add a box
+   */
+  static async deploy(
+    algod: algosdk.Algodv2,
+    creator: string,
+    signer: algosdk.TransactionSigner
+  ): Promise<TimeLockClient> {
+    const [approvalProgram, clearProgram] = await Promise.all([
+      TimeLockClient.compile(algod, TIME_LOCK_APPROVAL_PROGRAM),
+      TimeLockClient.compile(algod, TIME_LOCK_CLEAR_PROGRAM)
+    ]);
+
+    const txn = algosdk.makeApplicationCreateTxnFromObject({
+      sender: creator,
+      approvalProgram,
+      clearProgram,
+      numGlobalInts: 0,
+      numGlobalByteSlices: 0,
+      numLocalInts: 0,
+      numLocalByteSlices: 0,
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+      suggestedParams: await algod.getTransactionParams().do()
+    });
+
+    const result = await TimeLockClient.submit(algod, [txn], signer);
+    if (!result.applicationIndex) {
+      throw new Error('Time-lock application was not created');
+    }
+
+    // The application's address is only known once it exists
+    const funding = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: creator,
+      receiver: algosdk.getApplicationAddress(result.applicationIndex),
+      amount: APP_ACCOUNT_MIN_BALANCE,
+      suggestedParams: await algod.getTransactionParams().do()
+    });
+    await TimeLockClient.submit(algod, [funding], signer);
+    return new TimeLockClient(algod, result.applicationIndex);
+  }
+
+  /**
+   * Record a memory's content hash and unlock time on chain
+   */
+  async register(
+    memoryId: string,
+    contentHash: Uint8Array,
+    unlockDate: Date,
+    sender: string,
+    signer: algosdk.TransactionSigner
+  ): Promise<void> {
+    const boxName = textEncoder.encode(memoryId);
+    const suggestedParams = await this.algod.getTransactionParams().do();
+
+    // The application account pays for the box, so cover its minimum balance increase
+    const funding = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender,
+      receiver: algosdk.getApplicationAddress(this.appId),
+      amount: 2500 + 400 * (boxName.length + BOX_VALUE_LENGTH),
+      suggestedParams
+    });
+    const call = algosdk.makeApplicationNoOpTxnFromObject({
+      sender,
+      appIndex: this.appId,
+      appArgs: [
+        textEncoder.encode('register'),
+        boxName,
+        contentHash,
+        algosdk.encodeUint64(Math.floor(unlockDate.getTime() / 1000))
+      ],
+      boxes: [{ appIndex: this.appId, name: boxName }],
+      suggestedParams
+    });
+
+    await TimeLockClient.submit(this.algod, [funding, call], signer);
+  }
+
+  async getEntry(memoryId: string): Promise<TimeLockEntry | undefined> {
+    try {
+      const box = await this.algod.getApplicationBoxByName(this.appId, textEncoder.encode(memoryId)).do();
+      return {
+        contentHash: box.value.slice(0, 32),
+        unlockTimestamp: Number(algosdk.decodeUint64(box.value.slice(32, 40), 'bigint')),
+        owner: algosdk.encodeAddress(box.value.slice(40, 72))
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether the chain's latest block timestamp has passed the memory's unlock time
+   */
+  async isReleased(memoryId: string): Promise<boolean> {
+    const entry = await this.getEntry(memoryId);
+    if (!entry) {
+      throw new Error('Memory is not registered with the time-lock contract');
+    }
+    return (await getLatestBlockTimestamp(this.algod)) >= entry.unlockTimestamp;
+  }
+
+  /**
+   * Hand out a memory's key material only once the chain agrees it is unlocked
+   * and, when given, the content still matches the hash registered at record time
+   */
+  async releaseKey(
+    memoryId: string,
+    getKey: () => Uint8Array | undefined,
+    contentHash?: Uint8Array
+  ): Promise<Uint8Array> {
+    const entry = await this.getEntry(memoryId);
+    if (!entry) {
+      throw new Error('Memory is not registered with the time-lock contract');
+    }
+    if (contentHash && bytesToBase64(entry.contentHash) !== bytesToBase64(contentHash)) {
+      throw new Error('Memory content does not match its on-chain hash');
+    }
+    if ((await getLatestBlockTimestamp(this.algod)) < entry.unlockTimestamp) {
+      throw new Error('Memory is still time-locked on chain');
+    }
+
+    const material = getKey();
+    if (!material) {
+      throw new Error('Memory key not found');
+    }
+    return material;
+  }
+
+  /**
+   * Call `release` on chain, leaving a permanent record that the lock was opened
+   */
+  async release(memoryId: string, sender: string, signer: algosdk.TransactionSigner): Promise<void> {
+    const boxName = textEncoder.encode(memoryId);
+    const call = algosdk.makeApplicationNoOpTxnFromObject({
+      sender,
+      appIndex: this.appId,
+      appArgs: [textEncoder.encode('release'), boxName],
+      boxes: [{ appIndex: this.appId, name: boxName }],
+      suggestedParams: await this.algod.getTransactionParams().do()
+    });
+    await TimeLockClient.submit(this.algod, [call], signer);
+  }
+
+  private static async compile(algod: algosdk.Algodv2, source: string): Promise<Uint8Array> {
+    const compiled = await algod.compile(source).do();
+    return base64ToBytes(compiled.result);
+  }
+
+  private static async submit(
+    algod: algosdk.Algodv2,
+    txns: algosdk.Transaction[],
+    signer: algosdk.TransactionSigner
+  ): Promise<algosdk.modelsv2.PendingTransactionResponse> {
+    if (txns.length > 1) {
+      algosdk.assignGroupID(txns);
+    }
+    const signed = await signer(txns, txns.map((_, index) => index));
+    await algod.sendRawTransaction(signed).do();
+    // The last transaction is the one of interest in every group sent here
+    return algosdk.waitForConfirmation(algod, txns[txns.length - 1].txID(), 4);
+  }
+}
+
+// Whether `VITE_TIMELOCK_APP_ID` names a time-lock application to enforce locks on chain
+export function hasTimeLockApp(): boolean {
+  return Boolean(import.meta.env.VITE_TIMELOCK_APP_ID);
+}
+
+/**
+ * Client for the application named by `VITE_TIMELOCK_APP_ID`, if one is configured
+ */
+export function createTimeLockClient(network: NetworkConfig = getNetwork()): TimeLockClient | undefined {
+  const appId = import.meta.env.VITE_TIMELOCK_APP_ID;
+  return appId ? new TimeLockClient(createAlgodClient(network), BigInt(appId)) : undefined;
+}
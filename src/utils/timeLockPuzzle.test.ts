@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { bigIntToHex, createPuzzle, hexToBigInt, openPuzzle, square } from './timeLockPuzzle';
+import { randomBytes } from './crypto';
+
+describe('time-lock puzzle', () => {
+  it('opens with the solution found by sequential squaring, and not otherwise', async () => {
+    const material = randomBytes(32);
+    // A tiny puzzle: the work scales with seconds, the modulus size does not
+    const puzzle = await createPuzzle(material, 'memory_1', 0.001);
+
+    const solution = square(hexToBigInt(puzzle.base), puzzle.squarings, hexToBigInt(puzzle.modulus));
+    expect(await openPuzzle(puzzle, bigIntToHex(solution), 'memory_1')).toEqual(material);
+
+    await expect(openPuzzle(puzzle, bigIntToHex(solution + 1n), 'memory_1')).rejects.toThrow();
+    await expect(openPuzzle(puzzle, bigIntToHex(solution), 'memory_2')).rejects.toThrow();
+  }, 120000);
+});
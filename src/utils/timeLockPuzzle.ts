@@ -0,0 +1,222 @@
+import {
+  EncryptedPayload,
+  decryptBytes,
+  deriveMemoryKey,
+  encryptBytes,
+  randomBytes,
+  sha256
+} from './crypto';
+
+/**
+ * Rivest–Shamir–Wagner time-lock puzzle: the key material is wrapped with
+ * `base^(2^squarings) mod modulus`. Knowing the factors of the modulus, the creator
+ * computes it instantly; anyone else has to square `squarings` times in sequence,
+ * which cannot be parallelised.
+ */
+export interface TimeLockPuzzle {
+  // Big integers as hex strings
+  modulus: string;
+  base: string;
+  squarings: number;
+  // Squarings per second measured on the creating device
+  calibratedRate: number;
+  wrappedKey: EncryptedPayload;
+}
+
+export interface PuzzleProgress {
+  squaringsDone: number;
+  value: string;
+}
+
+const MODULUS_BITS = 2048;
+const MILLER_RABIN_ROUNDS = 40;
+const SMALL_PRIMES = [3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97];
+
+export function bigIntToHex(value: bigint): string {
+  return value.toString(16);
+}
+
+export function hexToBigInt(hex: string): bigint {
+  return BigInt(`0x${hex}`);
+}
+
+function randomBigInt(bits: number): bigint {
+  const bytes = randomBytes(Math.ceil(bits / 8));
+  return hexToBigInt(Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(''));
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function isProbablePrime(candidate: bigint): boolean {
+  for (const prime of SMALL_PRIMES) {
+    if (candidate % BigInt(prime) === 0n) return candidate === BigInt(prime);
+  }
+
+  let d = candidate - 1n;
+  let r = 0;
+  while ((d & 1n) === 0n) {
+    d >>= 1n;
+    r++;
+  }
+
+  const bits = candidate.toString(2).length;
+  for (let round = 0; round < MILLER_RABIN_ROUNDS; round++) {
+    const witness = 2n + (randomBigInt(bits) % (candidate - 3n));
+    let x = modPow(witness, d, candidate);
+    if (x === 1n || x === candidate - 1n) continue;
+
+    let composite = true;
+    for (let i = 1; i < r; i++) {
+      x = (x * x) % candidate;
+      if (x === candidate - 1n) {
+        composite = false;
+        break;
+      }
+    }
+    if (composite) return false;
+  }
+  return true;
+}
+
+function generatePrime(bits: number): bigint {
+  for (;;) {
+    // Top bit set for the full length, bottom bit for oddness
+    const candidate = randomBigInt(bits) | (1n << BigInt(bits - 1)) | 1n;
+    if (isProbablePrime(candidate)) return candidate;
+  }
+}
+
+/**
+ * Apply `count` sequential squarings, the only way to solve a puzzle without its factors
+ */
+export function square(value: bigint, count: number, modulus: bigint): bigint {
+  for (let i = 0; i < count; i++) {
+    value = (value * value) % modulus;
+  }
+  return value;
+}
+
+/**
+ * Squarings per second this device manages on a modulus of the puzzle size
+ */
+export function calibrateSquaringRate(durationMs = 250): number {
+  const modulus = randomBigInt(MODULUS_BITS) | 1n;
+  let value = randomBigInt(MODULUS_BITS - 1);
+  let done = 0;
+  const start = performance.now();
+  while (performance.now() - start < durationMs) {
+    value = square(value, 1000, modulus);
+    done += 1000;
+  }
+  return Math.round(done / ((performance.now() - start) / 1000));
+}
+
+async function deriveWrappingKey(solution: bigint, memoryId: string): Promise<CryptoKey> {
+  const digest = await sha256(new TextEncoder().encode(bigIntToHex(solution)));
+  return deriveMemoryKey(digest, `${memoryId}:puzzle`);
+}
+
+/**
+ * A puzzle before it wraps anything, with the solution its creator knows
+ */
+export interface PuzzleSetup {
+  modulus: string;
+  base: string;
+  squarings: number;
+  calibratedRate: number;
+  solution: string;
+}
+
+/**
+ * The slow part of creating a puzzle: calibrating, finding the primes and taking the
+ * shortcut to the solution. Blocks for seconds, so the app runs it in the puzzle worker.
+ */
+export function setUpPuzzle(seconds: number): PuzzleSetup {
+  const calibratedRate = calibrateSquaringRate();
+  const squarings = Math.max(1, Math.ceil(calibratedRate * seconds));
+
+  const p = generatePrime(MODULUS_BITS / 2);
+  const q = generatePrime(MODULUS_BITS / 2);
+  const modulus = p * q;
+  const totient = (p - 1n) * (q - 1n);
+  const base = 2n;
+
+  // The shortcut: reduce the exponent 2^squarings modulo the totient first
+  const solution = modPow(base, modPow(2n, BigInt(squarings), totient), modulus);
+
+  return {
+    modulus: bigIntToHex(modulus),
+    base: bigIntToHex(base),
+    squarings,
+    calibratedRate,
+    solution: bigIntToHex(solution)
+  };
+}
+
+/**
+ * Wrap key material in a puzzle that takes about `seconds` of sequential work to open.
+ * `setUp` does the slow part, in place unless a worker-backed version is passed.
+ */
+export async function createPuzzle(
+  material: Uint8Array,
+  memoryId: string,
+  seconds: number,
+  setUp: (seconds: number) => Promise<PuzzleSetup> = async seconds => setUpPuzzle(seconds)
+): Promise<TimeLockPuzzle> {
+  const { solution, ...puzzle } = await setUp(seconds);
+  const wrappedKey = await encryptBytes(
+    await deriveWrappingKey(hexToBigInt(solution), memoryId),
+    material,
+    `${memoryId}:puzzle`
+  );
+  return { ...puzzle, wrappedKey };
+}
+
+/**
+ * Recover the key material from a solved puzzle. Rejects when the solution is wrong.
+ */
+export async function openPuzzle(puzzle: TimeLockPuzzle, solution: string, memoryId: string): Promise<Uint8Array> {
+  const key = await deriveWrappingKey(hexToBigInt(solution), memoryId);
+  return decryptBytes(key, puzzle.wrappedKey, `${memoryId}:puzzle`);
+}
+
+const PROGRESS_KEY = 'chronolock_puzzle_progress';
+
+/**
+ * Partial solutions, so solving resumes where it stopped after a reload
+ */
+export class PuzzleProgressStore {
+  get(memoryId: string): PuzzleProgress | undefined {
+    return this.getAll()[memoryId];
+  }
+
+  set(memoryId: string, progress: PuzzleProgress): void {
+    const all = this.getAll();
+    all[memoryId] = progress;
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(all));
+  }
+
+  delete(memoryId: string): void {
+    const all = this.getAll();
+    delete all[memoryId];
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(all));
+  }
+
+  private getAll(): Record<string, PuzzleProgress> {
+    try {
+      const stored = localStorage.getItem(PROGRESS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AlgodTimeSource,
+  FakeTimeSource,
+  MAX_CLOCK_SKEW_MS,
+  SystemTimeSource,
+  checkClock,
+  createTimeSource
+} from './timeSource';
+import { createAlgodClient, getLatestBlockTimestamp } from './algorand';
+import { NETWORKS } from './network';
+
+vi.mock('./algorand', async importOriginal => ({
+  ...await importOriginal<typeof import('./algorand')>(),
+  getLatestBlockTimestamp: vi.fn()
+}));
+
+describe('checkClock', () => {
+  it('reports how far the local clock is from trusted time', async () => {
+    const clock = new FakeTimeSource(new Date(Date.now() - MAX_CLOCK_SKEW_MS - 60000));
+    const status = await checkClock(clock);
+    expect(status.isSkewed).toBe(true);
+    expect(status.skewMs).toBeGreaterThan(MAX_CLOCK_SKEW_MS);
+
+    clock.set(new Date());
+    expect((await checkClock(clock)).isSkewed).toBe(false);
+  });
+
+  it('reports no trusted time, rather than the local clock, when the source is down', async () => {
+    const clock = new FakeTimeSource();
+    clock.setAvailable(false);
+    expect(await checkClock(clock)).toEqual({ trustedTime: null, skewMs: null, isSkewed: false, warning: undefined });
+  });
+
+  it('passes on why a source is weaker than the network clock', async () => {
+    expect((await checkClock(new SystemTimeSource())).warning).toMatch(/device's clock/);
+  });
+});
+
+describe('AlgodTimeSource', () => {
+  it('extrapolates a block timestamp instead of asking for every decision', async () => {
+    vi.mocked(getLatestBlockTimestamp).mockReset().mockResolvedValue(1800000000);
+    const source = new AlgodTimeSource(createAlgodClient(NETWORKS.testnet));
+
+    const first = await source.now();
+    const second = await source.now();
+    expect(first.getTime()).toBe(1800000000 * 1000);
+    expect(second.getTime()).toBeGreaterThanOrEqual(first.getTime());
+    expect(getLatestBlockTimestamp).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the node cannot be reached', async () => {
+    vi.mocked(getLatestBlockTimestamp).mockReset().mockRejectedValue(new Error('fetch failed'));
+    const source = new AlgodTimeSource(createAlgodClient(NETWORKS.testnet));
+    await expect(source.now()).rejects.toThrow('Trusted time is unavailable: fetch failed');
+  });
+});
+
+describe('createTimeSource', () => {
+  it('uses the network algod by default, and TestNet time with a warning on LocalNet', () => {
+    const mainnet = createTimeSource(undefined, NETWORKS.mainnet);
+    expect(mainnet).toBeInstanceOf(AlgodTimeSource);
+    expect(mainnet.warning).toBeUndefined();
+
+    const localnet = createTimeSource(undefined, NETWORKS.localnet);
+    expect(localnet).toBeInstanceOf(AlgodTimeSource);
+    expect(localnet.warning).toMatch(/TestNet time/);
+  });
+
+  it('warns about LocalNet block time and the system clock when asked for them', () => {
+    expect(createTimeSource('algod', NETWORKS.localnet).warning).toMatch(/LocalNet block time/);
+    expect(createTimeSource('system', NETWORKS.mainnet)).toBeInstanceOf(SystemTimeSource);
+  });
+
+  it('requires the time service to be configured', () => {
+    expect(() => createTimeSource('service', NETWORKS.mainnet)).toThrow('VITE_TIME_SERVICE_URL');
+  });
+});
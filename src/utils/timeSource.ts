@@ -0,0 +1,188 @@
+import algosdk from 'algosdk';
+import { base64ToBytes, bytesToBase64, randomBytes } from './crypto';
+import { createAlgodClient, getLatestBlockTimestamp } from './algorand';
+import { NETWORKS, NetworkConfig, getNetwork } from './network';
+
+/**
+ * Where lock decisions get the current time from. `now` rejects when no
+ * trustworthy time can be obtained; callers must then keep memories locked.
+ */
+export interface TimeSource {
+  now(): Promise<Date>;
+  // Why this source is weaker than the network's own clock, shown to the user
+  warning?: string;
+}
+
+export type TimeSourceKind = 'algod' | 'service' | 'system';
+
+export interface ClockStatus {
+  trustedTime: Date | null;
+  // Local clock minus trusted time, in milliseconds
+  skewMs: number | null;
+  isSkewed: boolean;
+  warning?: string;
+}
+
+// Beyond this the local clock is reported as wrong
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// How long a fetched time is extrapolated before asking the source again
+const CACHE_MS = 30 * 1000;
+
+/**
+ * Keeps the last trusted reading and extrapolates it with `performance.now()`,
+ * which is monotonic and unaffected by changes to the OS clock.
+ */
+abstract class CachedTimeSource implements TimeSource {
+  private reading: { time: number; at: number } | null = null;
+
+  protected abstract fetchTime(): Promise<number>;
+
+  async now(): Promise<Date> {
+    const elapsed = this.reading ? performance.now() - this.reading.at : Infinity;
+    if (this.reading && elapsed < CACHE_MS) {
+      return new Date(this.reading.time + elapsed);
+    }
+    try {
+      this.reading = { time: await this.fetchTime(), at: performance.now() };
+    } catch (error) {
+      this.reading = null;
+      throw new Error(`Trusted time is unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return new Date(this.reading.time);
+  }
+}
+
+/**
+ * Timestamp of the latest Algorand block, which the network keeps within seconds of real time
+ */
+export class AlgodTimeSource extends CachedTimeSource {
+  constructor(private algod: algosdk.Algodv2, readonly warning?: string) {
+    super();
+  }
+
+  protected async fetchTime(): Promise<number> {
+    return (await getLatestBlockTimestamp(this.algod)) * 1000;
+  }
+}
+
+/**
+ * A time service that signs `chronolock-time:<nonce>:<unix ms>` with an Algorand account.
+ * GET `<url>?nonce=<base64>` must answer `{ time: number, signature: base64 }`.
+ */
+export class SignedTimeServiceSource extends CachedTimeSource {
+  constructor(private url: string, private signerAddress: string) {
+    super();
+  }
+
+  protected async fetchTime(): Promise<number> {
+    const nonce = bytesToBase64(randomBytes(16));
+    const response = await fetch(`${this.url}?nonce=${encodeURIComponent(nonce)}`);
+    if (!response.ok) {
+      throw new Error(`Time service answered ${response.status}`);
+    }
+
+    const { time, signature } = await response.json();
+    if (typeof time !== 'number' || typeof signature !== 'string') {
+      throw new Error('Time service returned an invalid response');
+    }
+    const message = new TextEncoder().encode(`chronolock-time:${nonce}:${time}`);
+    if (!algosdk.verifyBytes(message, base64ToBytes(signature), this.signerAddress)) {
+      throw new Error('Time service signature does not verify');
+    }
+    return time;
+  }
+}
+
+/**
+ * The local clock. Only for development: anyone can change it.
+ */
+export class SystemTimeSource implements TimeSource {
+  readonly warning = 'Memories open by this device\'s clock, which anyone can change.';
+
+  async now(): Promise<Date> {
+    return new Date();
+  }
+}
+
+/**
+ * Fixed, manually advanced time for exercising lock behaviour
+ */
+export class FakeTimeSource implements TimeSource {
+  private available = true;
+
+  constructor(private time: Date = new Date()) {}
+
+  async now(): Promise<Date> {
+    if (!this.available) {
+      throw new Error('Trusted time is unavailable');
+    }
+    return new Date(this.time);
+  }
+
+  set(time: Date): void {
+    this.time = new Date(time);
+  }
+
+  advance(ms: number): void {
+    this.time = new Date(this.time.getTime() + ms);
+  }
+
+  setAvailable(available: boolean): void {
+    this.available = available;
+  }
+}
+
+/**
+ * Compare the local clock with a trusted source
+ */
+export async function checkClock(source: TimeSource): Promise<ClockStatus> {
+  const { warning } = source;
+  try {
+    const trustedTime = await source.now();
+    const skewMs = Date.now() - trustedTime.getTime();
+    return { trustedTime, skewMs, isSkewed: Math.abs(skewMs) > MAX_CLOCK_SKEW_MS, warning };
+  } catch {
+    return { trustedTime: null, skewMs: null, isSkewed: false, warning };
+  }
+}
+
+/**
+ * Build the time source named by `VITE_TIME_SOURCE`. Unset, it is algod on the given
+ * network, except that LocalNet, whose dev-mode blocks only advance when a transaction
+ * is sent, takes its time from TestNet's public algod.
+ */
+export function createTimeSource(
+  kind: TimeSourceKind | undefined = import.meta.env.VITE_TIME_SOURCE,
+  network: NetworkConfig = getNetwork()
+): TimeSource {
+  if (kind === undefined) {
+    return network.id === 'localnet'
+      ? new AlgodTimeSource(
+        createAlgodClient(NETWORKS.testnet),
+        'LocalNet block time stands still between transactions, so memories open by TestNet time.'
+      )
+      : new AlgodTimeSource(createAlgodClient(network));
+  }
+
+  switch (kind) {
+    case 'service': {
+      const url = import.meta.env.VITE_TIME_SERVICE_URL;
+      const address = import.meta.env.VITE_TIME_SERVICE_ADDRESS;
+      if (!url || !address) {
+        throw new Error('VITE_TIME_SERVICE_URL and VITE_TIME_SERVICE_ADDRESS are required for the time service');
+      }
+      return new SignedTimeServiceSource(url, address);
+    }
+    case 'system':
+      return new SystemTimeSource();
+    case 'algod':
+      return network.id === 'localnet'
+        ? new AlgodTimeSource(
+          createAlgodClient(network),
+          'Memories open by LocalNet block time, which only moves when a transaction is sent.'
+        )
+        : new AlgodTimeSource(createAlgodClient(network));
+    default:
+      throw new Error(`Unknown time source: ${kind}`);
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { fromZonedParts, isValidTimeZone, toZonedParts } from './timezone';
+
+describe('timezone', () => {
+  it('converts wall-clock times in a zone to instants and back', () => {
+    const instant = fromZonedParts({ date: '2027-03-03', time: '09:00' }, 'Asia/Tokyo');
+    expect(instant.toISOString()).toBe('2027-03-03T00:00:00.000Z');
+    expect(toZonedParts(instant, 'Asia/Tokyo')).toEqual({ date: '2027-03-03', time: '09:00' });
+  });
+
+  it('follows daylight saving time', () => {
+    expect(fromZonedParts({ date: '2027-01-15', time: '12:00' }, 'America/New_York').toISOString())
+      .toBe('2027-01-15T17:00:00.000Z');
+    expect(fromZonedParts({ date: '2027-07-15', time: '12:00' }, 'America/New_York').toISOString())
+      .toBe('2027-07-15T16:00:00.000Z');
+  });
+
+  it('resolves a time skipped by the spring-forward jump to just after it', () => {
+    // New York skips 02:00-03:00 on 14 March 2027
+    const instant = fromZonedParts({ date: '2027-03-14', time: '02:30' }, 'America/New_York');
+    expect(toZonedParts(instant, 'America/New_York')).toEqual({ date: '2027-03-14', time: '03:30' });
+  });
+
+  it('validates zone names', () => {
+    expect(isValidTimeZone('Europe/Paris')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Wall-clock time in an IANA timezone, as the `<input type="date">` and `<input type="time">` values
+ */
+export interface ZonedParts {
+  date: string;
+  time: string;
+}
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every zone the browser knows, falling back to the local one on older engines
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [];
+  const local = getLocalTimeZone();
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+// Building a formatter is far slower than using one, and recurrences convert many dates
+const numericFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getNumericParts(instant: Date, timeZone: string): Record<string, number> {
+  let formatter = numericFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    numericFormatters.set(timeZone, formatter);
+  }
+  return Object.fromEntries(
+    formatter.formatToParts(instant)
+      .filter(part => part.type !== 'literal')
+      .map(part => [part.type, Number(part.value)])
+  );
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function getOffsetMs(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getNumericParts(instant, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+export function toZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const { year, month, day, hour, minute } = getNumericParts(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`
+  };
+}
+
+/**
+ * The instant at which the zone's wall clock shows the given date and time.
+ * Times skipped by a daylight-saving jump resolve to just after the jump.
+ */
+export function fromZonedParts({ date, time }: ZonedParts, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the guess may differ from the offset at the answer around DST changes
+  const firstGuess = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  const candidate = wallClock - getOffsetMs(new Date(firstGuess), timeZone);
+  const shown = toZonedParts(new Date(candidate), timeZone);
+  if (shown.date === date && shown.time === time) {
+    return new Date(candidate);
+  }
+  // The wall clock never shows this time; take the later reading
+  return new Date(Math.max(firstGuess, candidate));
+}
+
+/**
+ * e.g. "Mar 3, 2027, 9:00 AM (Asia/Tokyo)", in the zone the memory was sealed for
+ */
+export function formatInTimeZone(instant: Date, timeZone?: string): string {
+  const formatted = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short', timeZone })
+    .format(instant);
+  return timeZone ? `${formatted} (${timeZone})` : formatted;
+}
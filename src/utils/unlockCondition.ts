@@ -0,0 +1,164 @@
+import { formatInTimeZone } from './timezone';
+
+/**
+ * Further requirements a memory must meet, on top of its unlock date, before it opens.
+ * Leaves compare against trusted time, the Algorand round, or how often another memory
+ * has been listened to; `all` and `any` combine them.
+ */
+export type UnlockCondition =
+  | { type: 'date'; date: string }
+  | { type: 'round'; round: number }
+  | { type: 'memoryOpened'; memoryId: string }
+  | { type: 'listens'; memoryId: string; count: number }
+  | { type: 'all'; conditions: UnlockCondition[] }
+  | { type: 'any'; conditions: UnlockCondition[] };
+
+export interface ConditionContext {
+  // Trusted time and the latest round, or null when they cannot be obtained
+  now: () => Promise<Date | null>;
+  round: () => Promise<number | null>;
+  listens: (memoryId: string) => Promise<number>;
+}
+
+export interface ConditionResult {
+  met: boolean;
+  // The part of the condition still unmet: satisfied branches of `all` are pruned away
+  pending?: UnlockCondition;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export function isValidCondition(value: unknown, depth = 0): value is UnlockCondition {
+  if (!isObject(value) || depth > 8) return false;
+  switch (value.type) {
+    case 'date':
+      return typeof value.date === 'string' && !Number.isNaN(new Date(value.date).getTime());
+    case 'round':
+      return Number.isInteger(value.round) && (value.round as number) >= 0;
+    case 'memoryOpened':
+      return typeof value.memoryId === 'string' && value.memoryId !== '';
+    case 'listens':
+      return typeof value.memoryId === 'string' && value.memoryId !== '' &&
+        Number.isInteger(value.count) && (value.count as number) > 0;
+    case 'all':
+    case 'any':
+      return Array.isArray(value.conditions) && value.conditions.length > 0 &&
+        value.conditions.every(condition => isValidCondition(condition, depth + 1));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Drop empty groups, and with them a condition that asks for nothing at all
+ */
+export function pruneCondition(condition: UnlockCondition): UnlockCondition | undefined {
+  if (condition.type !== 'all' && condition.type !== 'any') return condition;
+  const conditions = condition.conditions
+    .map(pruneCondition)
+    .filter((child): child is UnlockCondition => child !== undefined);
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { type: condition.type, conditions };
+}
+
+/**
+ * Ids of the other memories a condition depends on
+ */
+export function referencedMemories(condition: UnlockCondition): string[] {
+  switch (condition.type) {
+    case 'memoryOpened':
+    case 'listens':
+      return [condition.memoryId];
+    case 'all':
+    case 'any':
+      return condition.conditions.flatMap(referencedMemories);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Dates named anywhere in a condition, so a caller can re-check it when one passes
+ */
+export function conditionDates(condition: UnlockCondition): Date[] {
+  switch (condition.type) {
+    case 'date':
+      return [new Date(condition.date)];
+    case 'all':
+    case 'any':
+      return condition.conditions.flatMap(conditionDates);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Decide a condition. Anything that cannot be checked, like time while offline, counts as unmet.
+ */
+export async function evaluateCondition(
+  condition: UnlockCondition,
+  context: ConditionContext
+): Promise<ConditionResult> {
+  const leaf = (met: boolean): ConditionResult => (met ? { met } : { met, pending: condition });
+
+  switch (condition.type) {
+    case 'date': {
+      const now = await context.now();
+      return leaf(now !== null && now >= new Date(condition.date));
+    }
+    case 'round': {
+      const round = await context.round();
+      return leaf(round !== null && round >= condition.round);
+    }
+    case 'memoryOpened':
+      return leaf(await context.listens(condition.memoryId) >= 1);
+    case 'listens':
+      return leaf(await context.listens(condition.memoryId) >= condition.count);
+    case 'all': {
+      const results = await Promise.all(condition.conditions.map(child => evaluateCondition(child, context)));
+      const pending = results.flatMap(result => (result.pending ? [result.pending] : []));
+      if (pending.length === 0) return { met: true };
+      return { met: false, pending: pending.length === 1 ? pending[0] : { type: 'all', conditions: pending } };
+    }
+    case 'any': {
+      const results = await Promise.all(condition.conditions.map(child => evaluateCondition(child, context)));
+      // Any one branch would do, so every unmet branch stays pending
+      return results.some(result => result.met) ? { met: true } : { met: false, pending: condition };
+    }
+  }
+}
+
+/**
+ * A sentence fragment such as `Algorand round 41000000 is reached and "Letter" has been heard 3 times`.
+ * `titleOf` names referenced memories; unknown ones are called "another memory".
+ */
+export function describeCondition(
+  condition: UnlockCondition,
+  titleOf: (memoryId: string) => string | undefined = () => undefined
+): string {
+  const name = (memoryId: string) => {
+    const title = titleOf(memoryId);
+    return title ? `"${title}"` : 'another memory';
+  };
+  const nested = (child: UnlockCondition) => {
+    const text = describeCondition(child, titleOf);
+    return child.type === 'all' || child.type === 'any' ? `(${text})` : text;
+  };
+
+  switch (condition.type) {
+    case 'date':
+      return `it is past ${formatInTimeZone(new Date(condition.date))}`;
+    case 'round':
+      return `Algorand round ${condition.round.toLocaleString()} is reached`;
+    case 'memoryOpened':
+      return `${name(condition.memoryId)} has been opened`;
+    case 'listens':
+      return `${name(condition.memoryId)} has been heard ${condition.count} ${condition.count === 1 ? 'time' : 'times'}`;
+    case 'all':
+      return condition.conditions.map(nested).join(' and ');
+    case 'any':
+      return `either ${condition.conditions.map(nested).join(' or ')}`;
+  }
+}
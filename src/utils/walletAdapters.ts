@@ -0,0 +1,278 @@
+import algosdk from 'algosdk';
+import { PeraWalletConnect } from '@perawallet/connect';
+import { DeflyWalletConnect } from '@blockshake/defly-connect';
+import { base64ToBytes, bytesToBase64 } from './crypto';
+import { KmdWallet } from './kmd';
+import type { NetworkConfig } from './network';
+
+export type WalletId = 'pera' | 'defly' | 'exodus' | 'kmd' | 'mnemonic';
+
+/**
+ * One way of holding Algorand keys. The rest of the app signs through this
+ * interface and never needs to know which wallet is connected.
+ */
+export interface WalletAdapter {
+  id: WalletId;
+  name: string;
+  description: string;
+  // Dev wallets hold keys in the page or talk to a local node, and are hidden from production builds
+  isDevelopment?: boolean;
+  isAvailable(): boolean;
+  connect(): Promise<string[]>;
+  // Resume a previous session without prompting; resolves to [] when there is none
+  reconnect(): Promise<string[]>;
+  disconnect(): Promise<void>;
+  /**
+   * Sign the transactions at `indexesToSign`, returning them signed in that order.
+   * The others are only shown for context, as wallets expect whole groups.
+   */
+  signTransactions(txns: algosdk.Transaction[], indexesToSign: number[], address: string): Promise<Uint8Array[]>;
+  // Sign arbitrary data with the "MX" prefix; absent when the wallet cannot
+  signBytes?(data: Uint8Array, message: string, address: string): Promise<Uint8Array>;
+}
+
+class PeraWalletAdapter implements WalletAdapter {
+  id = 'pera' as const;
+  name = 'Pera';
+  description = 'Mobile app or web wallet, including paired Ledger accounts';
+  private client: PeraWalletConnect;
+
+  constructor(network: NetworkConfig) {
+    this.client = new PeraWalletConnect({ chainId: network.chainId });
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  connect() {
+    return this.client.connect();
+  }
+
+  reconnect() {
+    return this.client.reconnectSession();
+  }
+
+  disconnect() {
+    return this.client.disconnect();
+  }
+
+  signTransactions(txns: algosdk.Transaction[], indexesToSign: number[], address: string) {
+    return this.client.signTransaction([
+      txns.map((txn, index) => ({ txn, signers: indexesToSign.includes(index) ? undefined : [] }))
+    ], address);
+  }
+
+  async signBytes(data: Uint8Array, message: string, address: string) {
+    const [signature] = await this.client.signData([{ data, message }], address);
+    return signature;
+  }
+}
+
+class DeflyWalletAdapter implements WalletAdapter {
+  id = 'defly' as const;
+  name = 'Defly';
+  description = 'Mobile wallet, including paired Ledger accounts';
+  private client: DeflyWalletConnect;
+
+  constructor(network: NetworkConfig) {
+    this.client = new DeflyWalletConnect({ chainId: network.chainId });
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  connect() {
+    return this.client.connect();
+  }
+
+  reconnect() {
+    return this.client.reconnectSession();
+  }
+
+  disconnect() {
+    return this.client.disconnect();
+  }
+
+  // Defly Connect cannot sign arbitrary data, so memories sealed through it stay unsigned
+  signTransactions(txns: algosdk.Transaction[], indexesToSign: number[], address: string) {
+    return this.client.signTransaction([
+      txns.map((txn, index) => ({ txn, signers: indexesToSign.includes(index) ? undefined : [] }))
+    ], address);
+  }
+}
+
+// ARC-0001 provider that Exodus injects as `window.algorand`
+interface InjectedAlgorandProvider {
+  enable(options?: { genesisID?: string; genesisHash?: string }): Promise<{ accounts: string[] }>;
+  signTxns(txns: { txn: string; signers?: string[] }[]): Promise<(string | null)[]>;
+}
+
+class ExodusWalletAdapter implements WalletAdapter {
+  id = 'exodus' as const;
+  name = 'Exodus';
+  description = 'Browser extension';
+  // Exodus keeps no session the page can resume, so accounts are remembered here
+  private accounts: string[] = [];
+
+  constructor(private network: NetworkConfig) {}
+
+  private get provider(): InjectedAlgorandProvider | undefined {
+    return (window as Window & { algorand?: InjectedAlgorandProvider }).algorand;
+  }
+
+  isAvailable() {
+    return Boolean(this.provider);
+  }
+
+  async connect() {
+    if (!this.provider) {
+      throw new Error('The Exodus extension is not installed');
+    }
+    const { genesisId: genesisID, genesisHash } = this.network;
+    this.accounts = (await this.provider.enable({ genesisID, genesisHash })).accounts;
+    return this.accounts;
+  }
+
+  async reconnect() {
+    return this.provider ? this.connect() : [];
+  }
+
+  async disconnect() {
+    this.accounts = [];
+  }
+
+  async signTransactions(txns: algosdk.Transaction[], indexesToSign: number[]) {
+    if (!this.provider) {
+      throw new Error('The Exodus extension is not installed');
+    }
+    const signed = await this.provider.signTxns(txns.map((txn, index) => ({
+      txn: bytesToBase64(algosdk.encodeUnsignedTransaction(txn)),
+      signers: indexesToSign.includes(index) ? undefined : []
+    })));
+    return indexesToSign.map(index => {
+      const result = signed[index];
+      if (!result) {
+        throw new Error(`Exodus did not sign transaction ${index}`);
+      }
+      return base64ToBytes(result);
+    });
+  }
+}
+
+/**
+ * The keys of a local AlgoKit LocalNet node, through its KMD. Development only.
+ */
+class KmdWalletAdapter implements WalletAdapter {
+  id = 'kmd' as const;
+  name = 'LocalNet KMD';
+  description = 'Accounts of the local development node';
+  isDevelopment = true;
+  private wallet: KmdWallet | null;
+
+  constructor(network: NetworkConfig) {
+    this.wallet = network.kmd ? new KmdWallet(network.kmd) : null;
+  }
+
+  isAvailable() {
+    return import.meta.env.DEV && this.wallet !== null;
+  }
+
+  async connect() {
+    return this.requireWallet().listAccounts();
+  }
+
+  reconnect() {
+    return this.connect();
+  }
+
+  async disconnect() {
+    // KMD holds no session for the page
+  }
+
+  signTransactions(txns: algosdk.Transaction[], indexesToSign: number[]) {
+    return this.requireWallet().signTransactions(txns, indexesToSign);
+  }
+
+  signBytes(data: Uint8Array, _message: string, address: string) {
+    return this.requireWallet().signBytes(data, address);
+  }
+
+  private requireWallet(): KmdWallet {
+    if (!this.wallet) {
+      throw new Error('This network has no KMD');
+    }
+    return this.wallet;
+  }
+}
+
+/**
+ * Signs with an account mnemonic held in page memory. Development only; the
+ * mnemonic is never stored, so it is asked for again after a reload.
+ */
+class MnemonicWalletAdapter implements WalletAdapter {
+  id = 'mnemonic' as const;
+  name = 'Mnemonic';
+  description = 'Paste a 25-word test account mnemonic';
+  isDevelopment = true;
+  private account: algosdk.Account | null = null;
+
+  constructor(private requestMnemonic: () => Promise<string | null>) {}
+
+  isAvailable() {
+    return import.meta.env.DEV;
+  }
+
+  async connect() {
+    const mnemonic = await this.requestMnemonic();
+    if (!mnemonic) {
+      throw new Error('No mnemonic was given');
+    }
+    this.account = algosdk.mnemonicToSecretKey(mnemonic.trim().toLowerCase().split(/\s+/).join(' '));
+    return [this.account.addr.toString()];
+  }
+
+  async reconnect() {
+    return this.account ? [this.account.addr.toString()] : [];
+  }
+
+  async disconnect() {
+    this.account = null;
+  }
+
+  async signTransactions(txns: algosdk.Transaction[], indexesToSign: number[]) {
+    const account = this.requireAccount();
+    return indexesToSign.map(index => txns[index].signTxn(account.sk));
+  }
+
+  async signBytes(data: Uint8Array) {
+    return algosdk.signBytes(data, this.requireAccount().sk);
+  }
+
+  private requireAccount(): algosdk.Account {
+    if (!this.account) {
+      throw new Error('Wallet not connected');
+    }
+    return this.account;
+  }
+}
+
+export interface WalletAdapterOptions {
+  network: NetworkConfig;
+  // Asks the user for a mnemonic for the development mnemonic wallet
+  requestMnemonic: () => Promise<string | null>;
+}
+
+/**
+ * Every supported wallet, in the order the picker lists them
+ */
+export function createWalletAdapters({ network, requestMnemonic }: WalletAdapterOptions): WalletAdapter[] {
+  return [
+    new PeraWalletAdapter(network),
+    new DeflyWalletAdapter(network),
+    new ExodusWalletAdapter(network),
+    new KmdWalletAdapter(network),
+    new MnemonicWalletAdapter(requestMnemonic)
+  ];
+}
@@ -1 +1,34 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_STORAGE_BACKEND?: 'memory' | 'localStorage' | 'indexedDB' | 'ipfs';
+  readonly VITE_IPFS_API_URL?: string;
+  /** Defaults to MainNet; point development builds at `localnet` */
+  readonly VITE_NETWORK?: 'localnet' | 'testnet' | 'mainnet';
+  readonly VITE_ALGOD_SERVER?: string;
+  readonly VITE_ALGOD_PORT?: string;
+  readonly VITE_ALGOD_TOKEN?: string;
+  readonly VITE_INDEXER_SERVER?: string;
+  readonly VITE_INDEXER_PORT?: string;
+  readonly VITE_INDEXER_TOKEN?: string;
+  readonly VITE_TIMELOCK_APP_ID?: string;
+  /**
+   * Where lock decisions take the current time from:
+   * - unset: the latest block timestamp of `VITE_NETWORK`, or of TestNet when that is LocalNet
+   * - `algod`: the latest block timestamp of `VITE_NETWORK`, LocalNet included
+   * - `service`: a signed time service at `VITE_TIME_SERVICE_URL`, signing as `VITE_TIME_SERVICE_ADDRESS`
+   * - `system`: this device's clock, for development only
+   */
+  readonly VITE_TIME_SOURCE?: 'algod' | 'service' | 'system';
+  readonly VITE_TIME_SERVICE_URL?: string;
+  readonly VITE_TIME_SERVICE_ADDRESS?: string;
+  readonly VITE_KMD_SERVER?: string;
+  readonly VITE_KMD_PORT?: string;
+  readonly VITE_KMD_TOKEN?: string;
+  readonly VITE_KMD_WALLET?: string;
+  readonly VITE_KMD_PASSWORD?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -10,4 +11,9 @@ export default defineConfig({
   define: {
     global: 'globalThis',
   },
-});
\ No newline at end of file
+  test: {
+    // localStorage, sessionStorage and BroadcastChannel as in the browser
+    environment: 'happy-dom',
+    include: ['src/**/*.test.ts'],
+  },
+});